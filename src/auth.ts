@@ -0,0 +1,257 @@
+import { Request, Response, NextFunction, RequestHandler, ErrorRequestHandler } from 'express';
+import { defaultErrorHandler, getAuthenticators, getGlobalErrorHandler, getOpenAPIDefaults } from './config';
+import { AuthenticationError, AuthorizationError } from './errors';
+import { parseCookies } from './lib/parse-cookies';
+import type {
+  SecurityScheme,
+  SecuritySchemeApiKey,
+  SecuritySchemeHttp,
+  SecuritySchemeOAuth2,
+  SecuritySchemeOpenIdConnect,
+} from './swagger';
+import type { RouteSchema } from './typed-router';
+
+/**
+ * The principal each security scheme resolves to, keyed by scheme name. Declare yours to type
+ * `req.auth`:
+ *
+ * ```typescript
+ * declare module 'express-zod-openapi-typed' {
+ *   interface AuthPrincipals {
+ *     bearerAuth: User;
+ *   }
+ * }
+ * ```
+ */
+export interface AuthPrincipals {}
+
+/** The principal, or a falsy value when the credential is not valid. */
+export type AuthenticateResult<P> = P | null | undefined | false | Promise<P | null | undefined | false>;
+
+export interface BasicCredentials {
+  username: string;
+  password: string;
+}
+
+export interface BearerAuthenticator<P = any> extends SecuritySchemeHttp {
+  scheme: 'bearer';
+  authenticate: (token: string, req: Request) => AuthenticateResult<P>;
+}
+
+export interface BasicAuthenticator<P = any> extends SecuritySchemeHttp {
+  scheme: 'basic';
+  authenticate: (credentials: BasicCredentials, req: Request) => AuthenticateResult<P>;
+}
+
+export interface ApiKeyAuthenticator<P = any> extends SecuritySchemeApiKey {
+  authenticate: (key: string, req: Request) => AuthenticateResult<P>;
+}
+
+/**
+ * OAuth2 and OpenID Connect read a bearer token. The scopes a principal was granted are taken from
+ * `scopes`, or else from its `scopes` array or space-separated `scope` claim.
+ */
+export interface OAuth2Authenticator<P = any> extends SecuritySchemeOAuth2 {
+  authenticate: (token: string, req: Request) => AuthenticateResult<P>;
+  scopes?: (principal: P) => string[];
+}
+
+export interface OpenIdConnectAuthenticator<P = any> extends SecuritySchemeOpenIdConnect {
+  authenticate: (token: string, req: Request) => AuthenticateResult<P>;
+  scopes?: (principal: P) => string[];
+}
+
+export type Authenticator<P = any> =
+  | BearerAuthenticator<P>
+  | BasicAuthenticator<P>
+  | ApiKeyAuthenticator<P>
+  | OAuth2Authenticator<P>
+  | OpenIdConnectAuthenticator<P>;
+
+type PrincipalOf<K> = K extends keyof AuthPrincipals ? AuthPrincipals[K] : unknown;
+
+type RequirementPrincipals<R> = R extends any
+  ? { [K in keyof R as R[K] extends undefined ? never : K]: PrincipalOf<K> }
+  : never;
+
+/**
+ * `req.auth` of a route: the principals of the security requirement that was met. Routes that
+ * don't declare `security` fall back to the default one, so any scheme may be present.
+ */
+export type AuthOf<T extends RouteSchema> = T['security'] extends ReadonlyArray<infer R>
+  ? [R] extends [never] ? {} : RequirementPrincipals<R>
+  : Partial<AuthPrincipals>;
+
+/** The OpenAPI security scheme an authenticator documents. */
+export const toSecurityScheme = (authenticator: Authenticator): SecurityScheme => {
+  const { authenticate, scopes, ...scheme } = authenticator as OAuth2Authenticator;
+  return scheme;
+};
+
+const readBearerToken = (req: Request) => {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.get('authorization') ?? '');
+  return match?.[1];
+};
+
+const readBasicCredentials = (req: Request): BasicCredentials | undefined => {
+  const match = /^Basic\s+(\S+)\s*$/i.exec(req.get('authorization') ?? '');
+  if (!match) return undefined;
+
+  const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+  const index = decoded.indexOf(':');
+  if (index === -1) return undefined;
+  return { username: decoded.slice(0, index), password: decoded.slice(index + 1) };
+};
+
+const readApiKey = (authenticator: ApiKeyAuthenticator, req: Request) => {
+  switch (authenticator.in) {
+    case 'header':
+      return req.get(authenticator.name) || undefined;
+    case 'query': {
+      const value = (req.query as Record<string, unknown>)[authenticator.name];
+      const key = Array.isArray(value) ? value[0] : value;
+      return typeof key === 'string' && key ? key : undefined;
+    }
+    case 'cookie':
+      return ((req as any).cookies ?? parseCookies(req.get('cookie')))[authenticator.name] || undefined;
+  }
+};
+
+const grantedScopes = (authenticator: OAuth2Authenticator | OpenIdConnectAuthenticator, principal: any) => {
+  if (authenticator.scopes) return authenticator.scopes(principal);
+  if (Array.isArray(principal?.scopes)) return principal.scopes as string[];
+  if (typeof principal?.scope === 'string') return principal.scope.split(' ').filter(Boolean);
+  return [];
+};
+
+const authenticateWith = async (authenticator: Authenticator, req: Request): Promise<unknown> => {
+  if (authenticator.type === 'apiKey') {
+    const key = readApiKey(authenticator, req);
+    return key === undefined ? undefined : authenticator.authenticate(key, req);
+  }
+  if (authenticator.type === 'http' && authenticator.scheme === 'basic') {
+    const credentials = readBasicCredentials(req);
+    return credentials && authenticator.authenticate(credentials, req);
+  }
+  const token = readBearerToken(req);
+  return token === undefined ? undefined : authenticator.authenticate(token, req);
+};
+
+/** The `WWW-Authenticate` challenge of a scheme; API keys have none. */
+const challengeFor = (authenticator: Authenticator) => {
+  if (authenticator.type === 'apiKey') return undefined;
+  return authenticator.type === 'http' && authenticator.scheme === 'basic' ? 'Basic' : 'Bearer';
+};
+
+type RequirementResult =
+  | { status: 'met'; principals: Record<string, unknown> }
+  | { status: 'unauthenticated' }
+  | { status: 'forbidden'; missingScopes: string[] };
+
+const unenforcedSchemes = new Set<string>();
+
+/** Warns once per scheme left unenforced while others have authenticators, as it's likely an oversight. */
+const warnUnenforced = (name: string, authenticators: Record<string, Authenticator>) => {
+  if (Object.keys(authenticators).length === 0 || unenforcedSchemes.has(name)) return;
+  unenforcedSchemes.add(name);
+  console.warn(`[express-zod-openapi] No authenticator registered for security scheme "${name}"; it is documented but not enforced.`);
+};
+
+/**
+ * Enforces a route's `security` requirement (or the default one from `setOpenAPIDefaults`):
+ * any one entry must be met, and every scheme of that entry must authenticate and hold the
+ * listed scopes. Missing or rejected credentials are reported as an `AuthenticationError`
+ * (401), valid credentials without the scopes as an `AuthorizationError` (403). An empty entry
+ * (`{}`) makes authentication optional: the request goes through with an empty `req.auth` when
+ * no other entry is met. Only schemes registered with `setAuthenticators` are enforced.
+ */
+export const createAuthMiddleware = (
+  schema: RouteSchema,
+  routeErrorHandler?: ErrorRequestHandler
+): RequestHandler => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const declared = schema.security ?? getOpenAPIDefaults()?.security;
+      if (!declared || declared.length === 0) return next();
+
+      // Checked before the filtering below, which would also empty the entries of unenforced schemes.
+      const optional = declared.some((requirement) => Object.keys(requirement).length === 0);
+
+      // Schemes without an authenticator are only documented. Entries left without a scheme are
+      // dropped rather than met, so they don't open the route.
+      const authenticators = getAuthenticators();
+      const requirements = declared
+        .map((requirement) => Object.fromEntries(Object.entries(requirement).filter(([name]) => {
+          if (!authenticators[name]) warnUnenforced(name, authenticators);
+          return Boolean(authenticators[name]);
+        })))
+        .filter((requirement) => Object.keys(requirement).length > 0);
+      if (requirements.length === 0) return next();
+
+      const authenticatorFor = (name: string) => authenticators[name];
+
+      // A scheme listed in several entries authenticates once per request.
+      const principals = new Map<string, Promise<unknown>>();
+      const principalFor = (name: string) => {
+        if (!principals.has(name)) {
+          principals.set(name, authenticateWith(authenticatorFor(name), req));
+        }
+        return principals.get(name)!;
+      };
+
+      const evaluate = async (requirement: Record<string, string[] | undefined>): Promise<RequirementResult> => {
+        const met: Record<string, unknown> = {};
+        const missingScopes: string[] = [];
+
+        for (const [name, scopes = []] of Object.entries(requirement)) {
+          const authenticator = authenticatorFor(name);
+          const principal = await principalFor(name);
+          if (!principal) return { status: 'unauthenticated' };
+
+          if (authenticator.type === 'oauth2' || authenticator.type === 'openIdConnect') {
+            const granted = grantedScopes(authenticator, principal);
+            missingScopes.push(...scopes.filter((scope) => !granted.includes(scope)));
+          }
+          met[name] = principal;
+        }
+
+        return missingScopes.length > 0 ? { status: 'forbidden', missingScopes } : { status: 'met', principals: met };
+      };
+
+      const results: RequirementResult[] = [];
+      for (const requirement of requirements) {
+        const result = await evaluate(requirement);
+        if (result.status === 'met') {
+          (req as any).auth = result.principals;
+          return next();
+        }
+        results.push(result);
+      }
+
+      if (optional) {
+        (req as any).auth = {};
+        return next();
+      }
+
+      const schemes = [...new Set(requirements.flatMap((requirement) => Object.keys(requirement)))];
+      const forbidden = results.find(
+        (result): result is Extract<RequirementResult, { status: 'forbidden' }> => result.status === 'forbidden'
+      );
+      const error = forbidden
+        ? new AuthorizationError(schemes, forbidden.missingScopes, req)
+        : new AuthenticationError(schemes, req);
+
+      if (error instanceof AuthenticationError) {
+        const challenges = schemes.map((name) => challengeFor(authenticatorFor(name))).filter(Boolean);
+        if (challenges.length > 0) {
+          res.set('WWW-Authenticate', [...new Set(challenges)].join(', '));
+        }
+      }
+
+      const handler = routeErrorHandler ?? getGlobalErrorHandler() ?? defaultErrorHandler;
+      return handler(error, req, res, next);
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -0,0 +1,40 @@
+import { parseArgs } from 'util';
+import { diffOpenAPISpecs, formatSpecDiff } from '../spec-diff';
+import { readDocument } from './documents';
+
+export const diffUsage = `Usage: express-zod-openapi diff <before> <after> [options]
+
+Compares two OpenAPI documents (JSON or YAML) and reports breaking and non-breaking changes.
+
+Options:
+  --format <text|json>        Output format (default: text)
+  --fail-on <breaking|any|none>
+                              Exits with 1 on breaking changes, on any change, or never (default: breaking)`;
+
+export const runDiff = (args: string[]): number => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', default: 'text' },
+      'fail-on': { type: 'string', default: 'breaking' },
+    },
+  });
+
+  if (positionals.length !== 2 || !['text', 'json'].includes(values.format!) || !['breaking', 'any', 'none'].includes(values['fail-on']!)) {
+    console.error(diffUsage);
+    return 2;
+  }
+
+  const diff = diffOpenAPISpecs(readDocument(positionals[0]), readDocument(positionals[1]));
+  console.log(values.format === 'json' ? JSON.stringify(diff, null, 2) : formatSpecDiff(diff));
+
+  switch (values['fail-on']) {
+    case 'any':
+      return diff.changes.length > 0 ? 1 : 0;
+    case 'none':
+      return 0;
+    default:
+      return diff.hasBreakingChanges ? 1 : 0;
+  }
+};
@@ -0,0 +1,12 @@
+import { readFileSync } from 'fs';
+import { parse } from 'yaml';
+
+/** Reads an OpenAPI document from a JSON or YAML file. */
+export const readDocument = (file: string): any => {
+  const text = readFileSync(file, 'utf8');
+  try {
+    return file.endsWith('.json') ? JSON.parse(text) : parse(text);
+  } catch (error) {
+    throw new Error(`Could not parse ${file}: ${(error as Error).message}`);
+  }
+};
@@ -0,0 +1,143 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { stringify } from 'yaml';
+import { generateOpenAPISpec, OpenAPIConfig } from '../swagger';
+import { isTypedRouter, RouteSource } from '../typed-router';
+import { diffOpenAPISpecs, formatSpecDiff } from '../spec-diff';
+import { readDocument } from './documents';
+
+export const generateUsage = `Usage: express-zod-openapi generate --entry <file> [options]
+
+Loads a module, collects its typed routes and writes their OpenAPI document.
+
+Options:
+  --entry <file>           Module registering the routes, e.g. src/app.ts
+  --export <name>          Export holding the router or app to document; defaults to the
+                           module itself, or its default, app or router export
+  --out <file>             Writes the document to this file instead of stdout
+  --format <json|yaml>     Defaults to the extension of --out, or yaml
+  --config <file>          JSON, YAML or JS file with the OpenAPI config (info, servers...);
+                           defaults to the name and version in package.json
+  --base-path <path>       Prepended to every route path
+  --require <module>       Module to load first, e.g. a TypeScript loader (ts-node/register)
+  --check                  Exits with 1 instead of writing when --out is out of date`;
+
+/** Loaders tried, in order, for TypeScript entries when none is registered. */
+const typescriptLoaders = ['tsx/cjs', 'ts-node/register'];
+
+const requireFromCwd = (id: string) => {
+  return require(require.resolve(id, { paths: [process.cwd()] }));
+};
+
+const registerTypescript = () => {
+  if (require.extensions['.ts']) return;
+
+  for (const loader of typescriptLoaders) {
+    try {
+      requireFromCwd(loader);
+      return;
+    } catch {
+      // Not installed; try the next one.
+    }
+  }
+  throw new Error(
+    'Loading a TypeScript entry needs tsx or ts-node installed (or a loader passed with --require), ' +
+    'or point --entry at the compiled JavaScript.'
+  );
+};
+
+const loadModule = (file: string) => {
+  const resolved = path.resolve(file);
+  if (!existsSync(resolved)) {
+    throw new Error(`Entry ${file} does not exist.`);
+  }
+  if (/\.[cm]?ts$/.test(resolved)) {
+    registerTypescript();
+  }
+  return require(resolved);
+};
+
+const loadConfig = (file: string | undefined): OpenAPIConfig => {
+  if (file) {
+    const config = /\.[cm]?[jt]s$/.test(file) ? loadModule(file) : readDocument(file);
+    return config?.default ?? config;
+  }
+
+  const packageFile = path.resolve('package.json');
+  const packageJson = existsSync(packageFile) ? JSON.parse(readFileSync(packageFile, 'utf8')) : {};
+  return { info: { title: packageJson.name ?? 'API', version: packageJson.version ?? '1.0.0' } };
+};
+
+const isRouteSource = (value: any): value is RouteSource => {
+  return isTypedRouter(value) || typeof value?.use === 'function';
+};
+
+/** The named export, or else the module itself when it is a router or app, or its usual exports. */
+const findSource = (entry: any, file: string, name: string | undefined): RouteSource => {
+  if (name) {
+    if (!isRouteSource(entry?.[name])) {
+      throw new Error(`${file} has no router or app export named "${name}".`);
+    }
+    return entry[name];
+  }
+
+  const source = [entry, entry?.default, entry?.app, entry?.router].find(isRouteSource);
+  if (!source) {
+    throw new Error(`${file} has no default, app or router export; name the export to document with --export.`);
+  }
+  return source;
+};
+
+const serialize = (spec: unknown, format: string) => {
+  return format === 'json' ? `${JSON.stringify(spec, null, 2)}\n` : stringify(spec, { aliasDuplicateObjects: false });
+};
+
+export const runGenerate = (args: string[]): number => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      entry: { type: 'string' },
+      export: { type: 'string' },
+      out: { type: 'string' },
+      format: { type: 'string' },
+      config: { type: 'string' },
+      'base-path': { type: 'string', default: '' },
+      require: { type: 'string', multiple: true, default: [] },
+      check: { type: 'boolean', default: false },
+    },
+  });
+
+  const format = values.format ?? (values.out?.endsWith('.json') ? 'json' : 'yaml');
+  if (!values.entry || !['json', 'yaml'].includes(format) || (values.check && !values.out)) {
+    console.error(generateUsage);
+    return 2;
+  }
+
+  values.require!.forEach(requireFromCwd);
+  const config = loadConfig(values.config);
+  const entry = loadModule(values.entry);
+
+  const source = findSource(entry, values.entry, values.export);
+  const spec = generateOpenAPISpec(config, source, values['base-path']);
+  const output = serialize(spec, format);
+
+  if (!values.out) {
+    process.stdout.write(output);
+    return 0;
+  }
+
+  if (values.check) {
+    const current = existsSync(values.out) ? readFileSync(values.out, 'utf8') : undefined;
+    if (current === output) return 0;
+
+    console.error(`${values.out} is out of date; run this command without --check to update it.`);
+    if (current !== undefined) {
+      console.error(formatSpecDiff(diffOpenAPISpecs(readDocument(values.out), spec)));
+    }
+    return 1;
+  }
+
+  writeFileSync(values.out, output);
+  return 0;
+};
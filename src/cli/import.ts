@@ -0,0 +1,43 @@
+import { writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { generateRoutesFromOpenAPI } from '../openapi-import';
+import { readDocument } from './documents';
+
+export const importUsage = `Usage: express-zod-openapi import <document> [options]
+
+Generates Zod schemas and a typed router with stub handlers from an OpenAPI 3.0 or 3.1
+document (JSON or YAML).
+
+Options:
+  --out <file>             Writes the source to this file instead of stdout
+  --router-name <name>     Name of the exported router (default: router)
+  --import-from <module>   Module the source imports from (default: express-zod-openapi-typed)`;
+
+export const runImport = (args: string[]): number => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      'router-name': { type: 'string' },
+      'import-from': { type: 'string' },
+    },
+  });
+
+  if (positionals.length !== 1) {
+    console.error(importUsage);
+    return 2;
+  }
+
+  const source = generateRoutesFromOpenAPI(readDocument(positionals[0]), {
+    routerName: values['router-name'],
+    importFrom: values['import-from'],
+  });
+
+  if (values.out) {
+    writeFileSync(values.out, source);
+  } else {
+    process.stdout.write(source);
+  }
+  return 0;
+};
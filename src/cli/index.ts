@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+import { diffUsage, runDiff } from './diff';
+import { generateUsage, runGenerate } from './generate';
+import { importUsage, runImport } from './import';
+
+const commands: Record<string, { usage: string; run: (args: string[]) => number | Promise<number> }> = {
+  generate: { usage: generateUsage, run: runGenerate },
+  diff: { usage: diffUsage, run: runDiff },
+  import: { usage: importUsage, run: runImport },
+};
+
+const usage = `Usage: express-zod-openapi <command> [options]
+
+Commands:
+${Object.values(commands).map(({ usage }) => `  ${usage.split('\n')[0].replace('Usage: express-zod-openapi ', '')}`).join('\n')}
+
+Run \`express-zod-openapi <command> --help\` for the options of a command.`;
+
+const main = async (argv: string[]) => {
+  const [name, ...args] = argv;
+  const command = commands[name];
+
+  if (name === '--help') {
+    console.log(usage);
+    return 0;
+  }
+  if (!command) {
+    console.error(usage);
+    return 2;
+  }
+  if (args.includes('--help')) {
+    console.log(command.usage);
+    return 0;
+  }
+  return command.run(args);
+};
+
+// Exits explicitly once stdout is flushed: a loaded entry may have started a server.
+const exit = (code: number) => {
+  process.stdout.write('', () => process.exit(code));
+};
+
+main(process.argv.slice(2)).then(exit, (error) => {
+  console.error(error instanceof Error ? error.message : error);
+  exit(2);
+});
@@ -0,0 +1,171 @@
+import { z, ZodType } from './zod';
+import { RouteSchema, RouteMap, ResponseEntry, ResponseBody, ContentSchemas } from './typed-router';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+type PathsOf<Routes, M extends HttpMethod> = {
+  [K in keyof Routes]: K extends `${M} ${infer P}` ? P : never;
+}[keyof Routes];
+
+type RouteFor<Routes, M extends HttpMethod, P> = Routes[`${M} ${P & string}` & keyof Routes] extends infer T
+  ? T extends RouteSchema ? T : never
+  : never;
+
+type SegmentInput<S, Key extends string> = S extends ZodType
+  ? {} extends z.input<S> ? { [K in Key]?: z.input<S> } : { [K in Key]: z.input<S> }
+  : { [K in Key]?: never };
+
+type QuerySchemaOf<T extends RouteSchema> = T['query'] extends ZodType ? T['query'] : T['querystring'];
+
+type BodySchemaOf<T extends RouteSchema> = T['body'] extends ZodType
+  ? T['body']
+  : T['body'] extends ContentSchemas ? T['body'][keyof T['body']] : T['body'];
+
+export type ClientRequestInput<T extends RouteSchema> =
+  SegmentInput<T['params'], 'params'> &
+  SegmentInput<QuerySchemaOf<T>, 'query'> &
+  SegmentInput<BodySchemaOf<T>, 'body'> &
+  SegmentInput<T['headers'], 'headers'> &
+  SegmentInput<T['cookies'], 'cookies'> & {
+    /** Other `fetch` options; its headers go between the client's and the route's `headers`. */
+    init?: Omit<RequestInit, 'method' | 'body'>;
+  };
+
+type ClientArgs<T extends RouteSchema> = {} extends ClientRequestInput<T>
+  ? [input?: ClientRequestInput<T>]
+  : [input: ClientRequestInput<T>];
+
+interface ClientResponseBase {
+  ok: boolean;
+  headers: Headers;
+  raw: Response;
+}
+
+/**
+ * The response of a client call: a union discriminated on `status` over the statuses the
+ * route declares in `response`, each with `data` typed by that status' schema.
+ */
+export type ClientResponse<T extends RouteSchema> = T['response'] extends Record<number, ResponseEntry>
+  ? {
+      [S in keyof T['response'] & number]: ClientResponseBase & {
+        status: S;
+        data: ResponseBody<T['response'][S]>;
+      };
+    }[keyof T['response'] & number]
+  : ClientResponseBase & { status: number; data: unknown };
+
+type ClientMethod<Routes, M extends HttpMethod> = <P extends PathsOf<Routes, M>>(
+  path: P,
+  ...args: ClientArgs<RouteFor<Routes, M, P>>
+) => Promise<ClientResponse<RouteFor<Routes, M, P>>>;
+
+export interface TypedClient<Routes> {
+  get: ClientMethod<Routes, 'GET'>;
+  post: ClientMethod<Routes, 'POST'>;
+  put: ClientMethod<Routes, 'PUT'>;
+  delete: ClientMethod<Routes, 'DELETE'>;
+  patch: ClientMethod<Routes, 'PATCH'>;
+}
+
+export interface ClientOptions {
+  /** Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+  /** Headers sent with every request; per-call headers take precedence. */
+  headers?: Record<string, string>;
+}
+
+export const buildUrl = (baseUrl: string, path: string, params?: Record<string, any>, query?: Record<string, any>) => {
+  const resolvedPath = path.replace(/\/:(\w+)(\?)?/g, (_, name: string, optional?: string) => {
+    const value = params?.[name];
+    if (value === undefined) {
+      if (optional) return '';
+      throw new Error(`Missing path parameter "${name}" for ${path}`);
+    }
+    return `/${encodeURIComponent(String(value))}`;
+  });
+
+  const search = new URLSearchParams();
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((item) => {
+      if (item === undefined || item === null) return;
+      search.append(key, item instanceof Date ? item.toISOString() : String(item));
+    });
+  });
+
+  const queryString = search.toString();
+  return `${baseUrl.replace(/\/+$/, '')}${resolvedPath}${queryString ? `?${queryString}` : ''}`;
+};
+
+const parseResponseBody = async (response: Response) => {
+  const text = await response.text();
+  if (!text) return undefined;
+
+  const contentType = response.headers.get('content-type') ?? '';
+  if (contentType.includes('json')) {
+    return JSON.parse(text);
+  }
+  return text;
+};
+
+/**
+ * Creates a fetch-based client for a typed router, checked against the router's route map:
+ * `createClient<typeof router>('https://api.example.com/users')`.
+ *
+ * Only routes registered in a chain on the router end up in its type.
+ */
+export const createClient = <R>(baseUrl: string, options: ClientOptions = {}): TypedClient<RouteMap<R>> => {
+  const request = async (method: HttpMethod, path: string, input: any = {}) => {
+    const fetchImpl = options.fetch ?? fetch;
+    const headers: Record<string, string> = {
+      ...options.headers,
+      ...Object.fromEntries(new Headers(input.init?.headers)),
+      ...input.headers,
+    };
+
+    if (input.cookies) {
+      headers.cookie = Object.entries(input.cookies)
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) => `${name}=${encodeURIComponent(String(value))}`)
+        .join('; ');
+    }
+
+    const contentTypeHeader = Object.keys(headers).find((name) => name.toLowerCase() === 'content-type');
+
+    // Form data and strings sent with a non-JSON `content-type` (`text/csv`...) go out as given.
+    let body: string | URLSearchParams | undefined;
+    if (input.body instanceof URLSearchParams) {
+      body = input.body;
+    } else if (typeof input.body === 'string' && contentTypeHeader && !headers[contentTypeHeader].includes('json')) {
+      body = input.body;
+    } else if (input.body !== undefined) {
+      body = JSON.stringify(input.body);
+      if (!contentTypeHeader) {
+        headers['content-type'] = 'application/json';
+      }
+    }
+
+    const response = await fetchImpl(buildUrl(baseUrl, path, input.params, input.query), {
+      ...input.init,
+      method,
+      headers,
+      body,
+    });
+
+    return {
+      status: response.status,
+      ok: response.ok,
+      headers: response.headers,
+      raw: response,
+      data: await parseResponseBody(response),
+    };
+  };
+
+  return {
+    get: (path: string, input?: any) => request('GET', path, input),
+    post: (path: string, input?: any) => request('POST', path, input),
+    put: (path: string, input?: any) => request('PUT', path, input),
+    delete: (path: string, input?: any) => request('DELETE', path, input),
+    patch: (path: string, input?: any) => request('PATCH', path, input),
+  } as any;
+};
@@ -1,5 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
-import { RequestValidationError, ResponseValidationError } from './errors';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  RequestValidationError,
+  ResponseValidationError,
+  UnsupportedMediaTypeError,
+  ValidationSegment,
+  WebhookSignatureError,
+} from './errors';
+import type { Authenticator } from './auth';
 import { ZodType } from './zod';
 
 export interface ValidationErrorResponse {
@@ -9,7 +18,12 @@ export interface ValidationErrorResponse {
 }
 
 export type ErrorHandler = (
-  error: RequestValidationError | ResponseValidationError,
+  error:
+    | RequestValidationError
+    | ResponseValidationError
+    | AuthenticationError
+    | AuthorizationError
+    | WebhookSignatureError,
   req: Request,
   res: Response,
   next: NextFunction
@@ -33,12 +47,35 @@ export interface OpenAPIGlobalConfig {
       url: string;
     };
   }>;
+  /** Security requirement of routes that don't declare `security`, documented and enforced. */
+  security?: Array<Record<string, string[]>>;
+}
+
+/**
+ * - `strict`: a failing response is handed to the error handler as a `ResponseValidationError`
+ * - `log`: the failure is logged and the response is sent anyway
+ * - `off`: responses are not validated
+ */
+export type ResponseValidationMode = 'strict' | 'log' | 'off';
+
+export interface ResponseValidationOptions {
+  mode?: ResponseValidationMode;
+  /** Fraction of requests (0 to 1) whose responses are validated. Defaults to 1. */
+  sampleRate?: number;
+  /** Send the schema-parsed body instead of the original one, stripping undeclared fields. */
+  sendParsed?: boolean;
+  /** Let redirects (3xx) the route does not declare through, such as those of `res.redirect`. */
+  allowRedirects?: boolean;
 }
 
 interface GlobalConfig {
   errorHandler?: ErrorHandler;
   openApiDefaults?: OpenAPIGlobalConfig;
   defaultResponses?: Record<number, ZodType<any>>;
+  responseValidation?: ResponseValidationOptions;
+  coerce?: boolean;
+  validateAllSegments?: boolean;
+  authenticators?: Record<string, Authenticator>;
 }
 
 const config: GlobalConfig = {};
@@ -55,6 +92,34 @@ export const setDefaultResponses = (responses: Record<number, ZodType<any>>) =>
   config.defaultResponses = responses;
 };
 
+export const setResponseValidation = (options: ResponseValidationOptions) => {
+  config.responseValidation = options;
+};
+
+/**
+ * Converts raw query, path and header strings to the types their schemas expect before
+ * validating them. Routes can override it with the `coerce` option.
+ */
+export const setCoercion = (enabled: boolean) => {
+  config.coerce = enabled;
+};
+
+/**
+ * Validates every request segment before reporting, so a single `RequestValidationError`
+ * carries the issues of all of them. Routes can override it with `validateAllSegments`.
+ */
+export const setValidateAllSegments = (enabled: boolean) => {
+  config.validateAllSegments = enabled;
+};
+
+/**
+ * Registers an authenticator per security scheme name. Routes enforce their `security`
+ * requirement with them, and each one is documented in `components.securitySchemes`.
+ */
+export const setAuthenticators = (authenticators: Record<string, Authenticator>) => {
+  config.authenticators = authenticators;
+};
+
 export const getGlobalErrorHandler = (): ErrorHandler | undefined => {
   return config.errorHandler;
 };
@@ -67,7 +132,65 @@ export const getDefaultResponses = (): Record<number, ZodType<any>> | undefined
   return config.defaultResponses;
 };
 
+export const getResponseValidation = (): ResponseValidationOptions | undefined => {
+  return config.responseValidation;
+};
+
+export const getCoercion = (): boolean => {
+  return config.coerce ?? false;
+};
+
+export const getValidateAllSegments = (): boolean => {
+  return config.validateAllSegments ?? false;
+};
+
+export const getAuthenticators = (): Record<string, Authenticator> => {
+  return config.authenticators ?? {};
+};
+
 export const defaultErrorHandler: ErrorHandler = (error, req, res, next) => {
+  if (error instanceof AuthenticationError) {
+    return res.status(401).json({
+      message: 'Authentication required.',
+      status: 'error',
+      errors: { schemes: error.schemes },
+    });
+  }
+
+  if (error instanceof AuthorizationError) {
+    return res.status(403).json({
+      message: 'Insufficient scope.',
+      status: 'error',
+      errors: { missingScopes: error.missingScopes },
+    });
+  }
+
+  if (error instanceof WebhookSignatureError) {
+    return res.status(401).json({
+      message: 'Invalid webhook signature.',
+      status: 'error',
+      errors: { reason: error.reason },
+    });
+  }
+
+  if (error instanceof UnsupportedMediaTypeError) {
+    return res.status(415).json({
+      message: 'Unsupported content type.',
+      status: 'error',
+      errors: { supportedTypes: error.supportedTypes },
+    });
+  }
+
+  if (error instanceof RequestValidationError && error.segments.length > 1) {
+    return res.status(400).json({
+      message: 'Request validation failed.',
+      status: 'error',
+      errors: Object.fromEntries(
+        error.segments.map((segment) => [segment, error.segmentErrors[segment]!.flatten().fieldErrors])
+      ),
+    });
+  }
+
   if (error instanceof RequestValidationError) {
     const errorMessages: Record<typeof error.segment, string> = {
       body: 'Body validation failed.',
@@ -75,6 +198,7 @@ export const defaultErrorHandler: ErrorHandler = (error, req, res, next) => {
       querystring: 'Query validation failed.',
       params: 'Params validation failed.',
       headers: 'Headers validation failed.',
+      cookies: 'Cookies validation failed.',
     };
 
     return res.status(400).json({
@@ -92,3 +216,110 @@ export const defaultErrorHandler: ErrorHandler = (error, req, res, next) => {
     });
   }
 };
+
+export interface ProblemDetailsIssue {
+  segment: ValidationSegment;
+  /** JSON Pointer to the invalid value within its segment, e.g. `#/address/street`. */
+  pointer: string;
+  code: string;
+  message: string;
+}
+
+/** RFC 9457 problem details, with the validation issues in the `errors` extension. */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  errors?: ProblemDetailsIssue[];
+  [extension: string]: unknown;
+}
+
+const toJsonPointer = (path: PropertyKey[]) => {
+  return `#/${path.map((key) => String(key).replace(/~/g, '~0').replace(/\//g, '~1')).join('/')}`;
+};
+
+const sendProblem = (res: Response, problem: ProblemDetails) => {
+  return res.status(problem.status).type('application/problem+json').json(problem);
+};
+
+/**
+ * Error handler answering with `application/problem+json` (RFC 9457).
+ * Enable it globally with `setGlobalErrorHandler(problemDetailsErrorHandler)`.
+ */
+export const problemDetailsErrorHandler: ErrorHandler = (error, req, res, next) => {
+  if (error instanceof AuthenticationError) {
+    return sendProblem(res, {
+      type: 'about:blank',
+      title: 'Unauthorized',
+      status: 401,
+      detail: error.message,
+      instance: req.originalUrl,
+    });
+  }
+
+  if (error instanceof AuthorizationError) {
+    return sendProblem(res, {
+      type: 'about:blank',
+      title: 'Forbidden',
+      status: 403,
+      detail: error.message,
+      instance: req.originalUrl,
+      missingScopes: error.missingScopes,
+    });
+  }
+
+  if (error instanceof WebhookSignatureError) {
+    return sendProblem(res, {
+      type: 'about:blank',
+      title: 'Unauthorized',
+      status: 401,
+      detail: error.message,
+      instance: req.originalUrl,
+    });
+  }
+
+  if (error instanceof UnsupportedMediaTypeError) {
+    return sendProblem(res, {
+      type: 'about:blank',
+      title: 'Unsupported Media Type',
+      status: 415,
+      detail: error.message,
+      instance: req.originalUrl,
+      supportedTypes: error.supportedTypes,
+    });
+  }
+
+  if (error instanceof RequestValidationError) {
+    const errors = error.segments.flatMap((segment) =>
+      error.segmentErrors[segment]!.issues.map((issue) => ({
+        segment,
+        pointer: toJsonPointer(issue.path),
+        code: issue.code,
+        message: issue.message,
+      }))
+    );
+
+    return sendProblem(res, {
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      detail: `Request validation failed in ${error.segments.join(', ')}.`,
+      instance: req.originalUrl,
+      errors,
+    });
+  }
+
+  if (error instanceof ResponseValidationError) {
+    return sendProblem(res, {
+      type: 'about:blank',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'The server response does not match the expected schema.',
+      instance: req.originalUrl,
+    });
+  }
+
+  next(error);
+};
@@ -1,19 +1,29 @@
 import { ZodError } from 'zod';
 import { Request, Response } from 'express';
 
-export type ValidationSegment = 'body' | 'query' | 'querystring' | 'params' | 'headers';
+export type ValidationSegment = 'body' | 'query' | 'querystring' | 'params' | 'headers' | 'cookies';
+
+export type SegmentErrors = Partial<Record<ValidationSegment, ZodError>>;
 
 export class RequestValidationError extends Error {
   public readonly segment: ValidationSegment;
   public readonly validationError: ZodError;
   public readonly request: Request;
+  /** Errors of every failed segment; only `segment` unless all segments are validated. */
+  public readonly segmentErrors: SegmentErrors;
 
-  constructor(segment: ValidationSegment, validationError: ZodError, request: Request) {
-    super(`Request validation failed in ${segment}`);
+  constructor(
+    segment: ValidationSegment,
+    validationError: ZodError,
+    request: Request,
+    segmentErrors: SegmentErrors = { [segment]: validationError }
+  ) {
+    super(`Request validation failed in ${Object.keys(segmentErrors).join(', ')}`);
     this.name = 'RequestValidationError';
     this.segment = segment;
     this.validationError = validationError;
     this.request = request;
+    this.segmentErrors = segmentErrors;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -25,6 +35,31 @@ export class RequestValidationError extends Error {
   get fieldErrors() {
     return this.validationError.flatten().fieldErrors;
   }
+
+  get segments() {
+    return Object.keys(this.segmentErrors) as ValidationSegment[];
+  }
+
+  /** Issues of every failed segment, with their full paths. */
+  get issuesBySegment() {
+    return Object.fromEntries(
+      Object.entries(this.segmentErrors).map(([segment, error]) => [segment, error!.issues])
+    ) as Partial<Record<ValidationSegment, ZodError['issues']>>;
+  }
+}
+
+export class UnsupportedMediaTypeError extends RequestValidationError {
+  public readonly contentType: string | undefined;
+  public readonly supportedTypes: string[];
+
+  constructor(contentType: string | undefined, supportedTypes: string[], request: Request) {
+    const message = `Unsupported content type ${contentType ?? '(none)'}, expected one of: ${supportedTypes.join(', ')}`;
+    super('body', new ZodError([{ code: 'custom', message, path: [] }]), request);
+    this.name = 'UnsupportedMediaTypeError';
+    this.message = message;
+    this.contentType = contentType;
+    this.supportedTypes = supportedTypes;
+  }
 }
 
 export class ResponseValidationError extends Error {
@@ -60,3 +95,169 @@ export class ResponseValidationError extends Error {
     return this.validationError.flatten().fieldErrors;
   }
 }
+
+/** Data sent on a server-sent event stream does not match the event's schema. */
+export class EventValidationError extends Error {
+  public readonly event: string;
+  public readonly validationError: ZodError;
+  public readonly request: Request;
+
+  constructor(event: string, validationError: ZodError, request: Request) {
+    super(`Event validation failed for "${event}"`);
+    this.name = 'EventValidationError';
+    this.event = event;
+    this.validationError = validationError;
+    this.request = request;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+
+  get errors() {
+    return this.validationError.issues;
+  }
+}
+
+/** A route's security requirement was not met: credentials are missing or were rejected. */
+export class AuthenticationError extends Error {
+  /** Security schemes the route accepts. */
+  public readonly schemes: string[];
+  public readonly request: Request;
+
+  constructor(schemes: string[], request: Request) {
+    super(`Authentication required: ${schemes.join(', ')}`);
+    this.name = 'AuthenticationError';
+    this.schemes = schemes;
+    this.request = request;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/** The credentials are valid, but lack the scopes the route's security requirement lists. */
+export class AuthorizationError extends Error {
+  public readonly schemes: string[];
+  public readonly missingScopes: string[];
+  public readonly request: Request;
+
+  constructor(schemes: string[], missingScopes: string[], request: Request) {
+    super(`Insufficient scope, missing: ${missingScopes.join(', ')}`);
+    this.name = 'AuthorizationError';
+    this.schemes = schemes;
+    this.missingScopes = missingScopes;
+    this.request = request;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/** A webhook payload or its headers do not match the webhook's schemas; nothing was sent. */
+export class WebhookValidationError extends Error {
+  public readonly webhook: string;
+  public readonly validationError: ZodError;
+
+  constructor(webhook: string, validationError: ZodError) {
+    super(`Webhook validation failed for "${webhook}"`);
+    this.name = 'WebhookValidationError';
+    this.webhook = webhook;
+    this.validationError = validationError;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+
+  get errors() {
+    return this.validationError.issues;
+  }
+}
+
+export class WebhookDeliveryError extends Error {
+  public readonly webhook: string;
+  public readonly url: string;
+  public readonly attempts: number;
+  /** Status of the last answer, if the receiver answered. */
+  public readonly status?: number;
+  public readonly cause?: unknown;
+
+  constructor(webhook: string, url: string, attempts: number, status?: number, cause?: unknown) {
+    const reason = status !== undefined ? `status ${status}` : String((cause as Error)?.message ?? cause);
+    super(`Webhook "${webhook}" could not be delivered to ${url} after ${attempts} attempt(s): ${reason}`);
+    this.name = 'WebhookDeliveryError';
+    this.webhook = webhook;
+    this.url = url;
+    this.attempts = attempts;
+    this.status = status;
+    this.cause = cause;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/** An incoming webhook's signature is missing, too old, or does not match its body. */
+export class WebhookSignatureError extends Error {
+  public readonly reason: 'missing' | 'expired' | 'mismatch';
+  public readonly request: Request;
+
+  constructor(reason: 'missing' | 'expired' | 'mismatch', request: Request) {
+    const messages = {
+      missing: 'Webhook signature is missing',
+      expired: 'Webhook signature timestamp is outside the tolerance',
+      mismatch: 'Webhook signature does not match',
+    };
+    super(messages[reason]);
+    this.name = 'WebhookSignatureError';
+    this.reason = reason;
+    this.request = request;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+export interface ExampleIssue {
+  /** `METHOD /path` of the route the example belongs to. */
+  route: string;
+  /** Where the example is declared: `body`, `query.page`, `response.200`... */
+  location: string;
+  example: string;
+  validationError: ZodError;
+}
+
+export class ExampleValidationError extends Error {
+  public readonly issues: ExampleIssue[];
+
+  constructor(issues: ExampleIssue[]) {
+    super(
+      `${issues.length} example(s) do not match their schema:\n` +
+      issues.map(({ route, location, example, validationError }) => {
+        return `  ${route} ${location} "${example}": ${validationError.issues[0]?.message}`;
+      }).join('\n')
+    );
+    this.name = 'ExampleValidationError';
+    this.issues = issues;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+export interface ContractFailure {
+  /** `METHOD /path` of the route under test. */
+  route: string;
+  /** The request that was sent: `valid request`, `body.email missing`... */
+  case: string;
+  /** Status the app answered with, if it answered. */
+  status?: number;
+  message: string;
+}
+
+export class ContractTestError extends Error {
+  public readonly failures: ContractFailure[];
+
+  constructor(failures: ContractFailure[]) {
+    super(
+      `${failures.length} contract test(s) failed:\n` +
+      failures.map(({ route, case: name, message }) => `  ${route} ${name}: ${message}`).join('\n')
+    );
+    this.name = 'ContractTestError';
+    this.failures = failures;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
@@ -0,0 +1,137 @@
+import { Request, Response, NextFunction, RequestHandler, ErrorRequestHandler } from 'express';
+
+/** Runs at a point of the request; ending the response stops the request there. */
+export type RequestHook = (req: Request, res: Response) => void | Promise<void>;
+
+export interface SendContext {
+  /** Status the response is sent with. */
+  status: number;
+  req: Request;
+  res: Response;
+}
+
+/** Receives the payload about to be sent; returning a value other than `undefined` replaces it. */
+export type OnSendHook = (payload: any, context: SendContext) => unknown | Promise<unknown>;
+
+/** Runs once the response has been sent. */
+export type OnResponseHook = (req: Request, res: Response) => void | Promise<void>;
+
+/** Observes an error of the route before the error handler answers it. */
+export type OnErrorHook = (error: unknown, req: Request, res: Response) => void | Promise<void>;
+
+/**
+ * Lifecycle hooks, in the order they run:
+ * - `onRequest`: before the route's middlewares and authentication
+ * - `preValidation`: after authentication, before the request is validated
+ * - `preHandler`: after validation, before the handler
+ * - `onSend`: with the (validated) payload and status, before it is serialized
+ * - `onResponse`: once the response was sent, or the connection closed before it was
+ * - `onError`: when the route fails, before the error handler
+ */
+export interface RouteHooks {
+  onRequest?: RequestHook | RequestHook[];
+  preValidation?: RequestHook | RequestHook[];
+  preHandler?: RequestHook | RequestHook[];
+  onSend?: OnSendHook | OnSendHook[];
+  onResponse?: OnResponseHook | OnResponseHook[];
+  onError?: OnErrorHook | OnErrorHook[];
+}
+
+export type HookName = keyof RouteHooks;
+
+/** The hook type registered under `N`. */
+export type HookOf<N extends HookName> = NonNullable<RouteHooks[N]> extends infer H | Array<infer H> ? H : never;
+
+export type HookLists = { [N in HookName]: Array<HookOf<N>> };
+
+export const toHookLists = (hooks: RouteHooks = {}): HookLists => {
+  const toList = <H>(hook: H | H[] | undefined): H[] => {
+    if (hook === undefined) return [];
+    return Array.isArray(hook) ? [...hook] : [hook];
+  };
+
+  return {
+    onRequest: toList(hooks.onRequest),
+    preValidation: toList(hooks.preValidation),
+    preHandler: toList(hooks.preHandler),
+    onSend: toList(hooks.onSend),
+    onResponse: toList(hooks.onResponse),
+    onError: toList(hooks.onError),
+  };
+};
+
+/**
+ * A middleware running request hooks in order, resolved per request so later registrations and
+ * the routers the request came through apply.
+ */
+export const createHookMiddleware = (resolve: (req: Request) => RequestHook[]): RequestHandler => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      for (const hook of resolve(req)) {
+        await hook(req, res);
+        if (res.headersSent) return;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Runs the `onSend` hooks on the payload of `res.json` and `res.send`. Installed before response
+ * validation wraps the same methods, so the hooks see the payload once it was validated.
+ */
+export const interceptSend = (hooks: OnSendHook[], req: Request, res: Response, next: NextFunction) => {
+  const originalJson = res.json.bind(res);
+  const originalSend = res.send.bind(res);
+  let sending = false;
+
+  const intercept = (send: (body?: any) => Response) => {
+    return (body?: any): Response => {
+      // Express' own `json` -> `send` chain passes through.
+      if (sending) return send(body);
+      sending = true;
+
+      hooks
+        .reduce<Promise<unknown>>(async (payload, hook) => {
+          const current = await payload;
+          const replaced = await hook(current, { status: res.statusCode, req, res });
+          return replaced === undefined ? current : replaced;
+        }, Promise.resolve(body))
+        .then((payload) => send(payload), next);
+      return res;
+    };
+  };
+
+  res.json = intercept(originalJson);
+  res.send = intercept(originalSend);
+};
+
+/** Runs the `onResponse` hooks once, also when the connection closed before the response finished. */
+export const runResponseHooks = (hooks: OnResponseHook[], req: Request, res: Response) => {
+  res.once('close', async () => {
+    for (const hook of hooks) {
+      try {
+        await hook(req, res);
+      } catch (error) {
+        console.error('onResponse hook failed:', error);
+      }
+    }
+  });
+};
+
+/** Wraps an error handler so the `onError` hooks run before it. */
+export const withErrorHooks = (
+  resolve: (req: Request) => OnErrorHook[],
+  handler: ErrorRequestHandler
+): ErrorRequestHandler => {
+  return (error, req, res, next) => {
+    const hooks = resolve(req);
+    if (hooks.length === 0) return handler(error, req, res, next);
+
+    hooks
+      .reduce<Promise<void>>((previous, hook) => previous.then(() => hook(error, req, res)), Promise.resolve())
+      .then(() => handler(error, req, res, next), next);
+  };
+};
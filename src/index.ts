@@ -1,7 +1,93 @@
-export { CreateTypedRouter, createSchema, getRoutesMetadata } from './typed-router';
-export type { RouteSchema, TypedRequest, TypedResponse, FileFieldConfig } from './typed-router';
+export { CreateTypedRouter, createSchema, getRoutesMetadata, isTypedRouter } from './typed-router';
+export type { 
+  RouteSchema, 
+  TypedRequest, 
+  TypedResponse, 
+  FileFieldConfig,
+  TypedRouter,
+  TypedRouterMethods,
+  RouteMetadata,
+  RouteSource,
+  RouteDefinitions,
+  RouteMap,
+  ResponseDefinition,
+  ResponseEntry,
+  ContentSchemas,
+  ContentExamples,
+  BodySchema,
+  ExampleObject,
+  Examples,
+  RouteExamples,
+  TypedRouterOptions
+} from './typed-router';
+
+export { createMockHandler } from './mock';
+export type { MockOptions } from './mock';
+
+export type {
+  AuthPrincipals,
+  AuthOf,
+  Authenticator,
+  AuthenticateResult,
+  BearerAuthenticator,
+  BasicAuthenticator,
+  BasicCredentials,
+  ApiKeyAuthenticator,
+  OAuth2Authenticator,
+  OpenIdConnectAuthenticator
+} from './auth';
+
+export { defineMiddleware } from './middleware';
+export type { TypedMiddleware, MiddlewareContext, MiddlewareOptions, MiddlewareSchema } from './middleware';
+
+export type {
+  RouteHooks,
+  HookName,
+  RequestHook,
+  OnSendHook,
+  OnResponseHook,
+  OnErrorHook,
+  SendContext
+} from './hooks';
+
+export type {
+  SSERouteSchema,
+  SSERouteOptions,
+  EventSchemas,
+  EventStream,
+  EventStreamHandler,
+  SendEventOptions
+} from './sse';
 
-export { generateOpenAPISpec } from './swagger';
+export {
+  defineWebhook,
+  createWebhookDispatcher,
+  fetchTransport,
+  verifyWebhookSignature,
+  captureRawBody
+} from './webhooks';
+export type {
+  WebhookDefinition,
+  WebhookOptions,
+  WebhookDispatcher,
+  WebhookDispatcherOptions,
+  WebhookSignatureOptions,
+  WebhookDeliveryOptions,
+  WebhookTransport,
+  WebhookRequest,
+  WebhookTransportResponse,
+  WebhookDelivery,
+  SendWebhookOptions,
+  VerifyWebhookOptions
+} from './webhooks';
+
+export { createClient } from './client';
+export type { TypedClient, ClientOptions, ClientRequestInput, ClientResponse } from './client';
+
+export { runContractTests, assertContract } from './testing';
+export type { ContractTestOptions, ContractReport, ContractRouteReport, ContractCase, ContractRequest } from './testing';
+
+export { generateOpenAPISpec, registerSchema } from './swagger';
 export type { 
   OpenAPIConfig,
   ContactObject,
@@ -20,20 +106,50 @@ export type {
   WebhookObject
 } from './swagger';
 
+export { diffOpenAPISpecs, formatSpecDiff } from './spec-diff';
+export type { SpecDiff, SpecChange, ChangeSeverity, ChangeKind } from './spec-diff';
+
+export { generateRoutesFromOpenAPI } from './openapi-import';
+export type { ImportOptions } from './openapi-import';
+
+export { serveOpenAPI } from './serve-openapi';
+export type { ServeOpenAPIOptions, OpenAPIUi } from './serve-openapi';
+
 export { 
   setGlobalErrorHandler, 
   setOpenAPIDefaults,
   setDefaultResponses,
-  defaultErrorHandler 
+  setResponseValidation,
+  setCoercion,
+  setValidateAllSegments,
+  setAuthenticators,
+  defaultErrorHandler,
+  problemDetailsErrorHandler
 } from './config';
 export type { 
   ErrorHandler, 
   ValidationErrorResponse, 
-  OpenAPIGlobalConfig 
+  OpenAPIGlobalConfig,
+  ResponseValidationMode,
+  ResponseValidationOptions,
+  ProblemDetails,
+  ProblemDetailsIssue
 } from './config';
 
-export { RequestValidationError, ResponseValidationError } from './errors';
-export type { ValidationSegment } from './errors';
+export {
+  RequestValidationError,
+  ResponseValidationError,
+  UnsupportedMediaTypeError,
+  AuthenticationError,
+  AuthorizationError,
+  EventValidationError,
+  WebhookValidationError,
+  WebhookDeliveryError,
+  WebhookSignatureError,
+  ExampleValidationError,
+  ContractTestError
+} from './errors';
+export type { ValidationSegment, SegmentErrors, ExampleIssue, ContractFailure } from './errors';
 
 export { z } from './zod';
 export type { ZodType, ZodSchema } from './zod';
@@ -0,0 +1,128 @@
+import { getObjectShape } from './object-shape';
+
+export type ParameterLocation = 'query' | 'path' | 'header' | 'cookie';
+
+const wrapperTypes: Record<string, (def: any) => any> = {
+  ZodOptional: (def) => def.innerType,
+  optional: (def) => def.innerType,
+  ZodNullable: (def) => def.innerType,
+  nullable: (def) => def.innerType,
+  ZodDefault: (def) => def.innerType,
+  default: (def) => def.innerType,
+  prefault: (def) => def.innerType,
+  ZodCatch: (def) => def.innerType,
+  catch: (def) => def.innerType,
+  ZodReadonly: (def) => def.innerType,
+  readonly: (def) => def.innerType,
+  ZodBranded: (def) => def.type,
+  ZodEffects: (def) => def.schema,
+  ZodPipeline: (def) => def.in,
+  pipe: (def) => def.in,
+  ZodLazy: (def) => def.getter(),
+  lazy: (def) => def.getter(),
+};
+
+/** Strips optional/default/pipe/... wrappers down to the schema the raw value is parsed with. */
+const unwrap = (schema: any): { schema: any; def: any; type: string } | undefined => {
+  const def = schema?._def || schema?.def;
+  if (!def) return undefined;
+
+  const type = def.typeName || def.type;
+  const inner = wrapperTypes[type];
+  return inner ? unwrap(inner(def)) : { schema, def, type };
+};
+
+const toNumber = (value: string) => {
+  const number = Number(value);
+  return value.trim() !== '' && !Number.isNaN(number) ? number : value;
+};
+
+const toBoolean = (value: string) => {
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  return value;
+};
+
+const toLiteral = (value: string, candidates: unknown[]) => {
+  const match = candidates.find((candidate) => String(candidate) === value);
+  return match === undefined ? value : match;
+};
+
+const coerceValue = (schema: any, value: unknown, location: ParameterLocation): unknown => {
+  const target = unwrap(schema);
+  if (!target || value === undefined) return value;
+
+  const { def, type } = target;
+
+  if (type === 'ZodArray' || type === 'array') {
+    const items = Array.isArray(value)
+      ? value
+      : location === 'query' ? [value] : String(value).split(',').map((item) => item.trim());
+    return items.map((item) => coerceValue(def.element ?? def.type, item, location));
+  }
+
+  if (type === 'ZodUnion' || type === 'union') {
+    for (const option of def.options) {
+      const coerced = coerceValue(option, value, location);
+      if (option.safeParse(coerced).success) return coerced;
+    }
+    return value;
+  }
+
+  if (typeof value !== 'string') return value;
+
+  switch (type) {
+    case 'ZodNumber':
+    case 'number':
+      return toNumber(value);
+
+    case 'ZodBigInt':
+    case 'bigint':
+      return /^-?\d+$/.test(value) ? BigInt(value) : value;
+
+    case 'ZodBoolean':
+    case 'boolean':
+      return toBoolean(value);
+
+    case 'ZodDate':
+    case 'date': {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? value : date;
+    }
+
+    case 'ZodEnum':
+    case 'enum':
+      return toLiteral(value, def.values ?? Object.values(def.entries ?? {}));
+
+    case 'ZodNativeEnum':
+    case 'nativeEnum':
+      return toLiteral(value, Object.values(def.values));
+
+    case 'ZodLiteral':
+    case 'literal':
+      return toLiteral(value, def.values ?? [def.value]);
+
+    default:
+      return value;
+  }
+};
+
+/**
+ * Converts the raw strings Express hands over for query, path, header and cookie parameters to the
+ * types their schema expects (numbers, booleans, dates, enum members, arrays) before parsing.
+ *
+ * Query arrays come from repeated keys (`?tag=a&tag=b`); path, header and cookie arrays
+ * are comma-separated. Values that cannot be converted are left as they are for Zod to reject.
+ */
+export const coerceParameters = (schema: any, values: Record<string, unknown>, location: ParameterLocation) => {
+  const shape = getObjectShape(unwrap(schema)?.schema);
+  if (!shape || !values) return values;
+
+  const coerced: Record<string, unknown> = { ...values };
+  Object.entries(shape).forEach(([key, fieldSchema]) => {
+    if (key in coerced) {
+      coerced[key] = coerceValue(fieldSchema, coerced[key], location);
+    }
+  });
+  return coerced;
+};
@@ -0,0 +1,132 @@
+import { IncomingMessage, RequestListener, ServerResponse } from 'http';
+import { Duplex } from 'stream';
+
+export interface DispatchRequest {
+  method: string;
+  /** Path and query string. */
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface DispatchOptions {
+  /** Milliseconds to wait for the response before rejecting. */
+  timeout?: number;
+  /** Names the request in the timeout error; defaults to its method and URL. */
+  label?: string;
+}
+
+export interface DispatchResponse {
+  status: number;
+  headers: Headers;
+  text: string;
+}
+
+/** Decodes a `Transfer-Encoding: chunked` body: hexadecimal sizes, each followed by that many bytes. */
+const decodeChunked = (raw: Buffer) => {
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  while (offset < raw.length) {
+    const lineEnd = raw.indexOf('\r\n', offset);
+    if (lineEnd === -1) break;
+    const size = parseInt(raw.subarray(offset, lineEnd).toString('latin1'), 16);
+    if (!size) break;
+    chunks.push(raw.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+  return Buffer.concat(chunks);
+};
+
+/** The body of a serialized HTTP response: what follows the head, de-chunked when sent in chunks. */
+const readBody = (raw: Buffer) => {
+  const headEnd = raw.indexOf('\r\n\r\n');
+  if (headEnd === -1) return Buffer.alloc(0);
+
+  const head = raw.subarray(0, headEnd).toString('latin1');
+  const body = raw.subarray(headEnd + 4);
+  return /\r\ntransfer-encoding:[^\r\n]*chunked/i.test(head) ? decodeChunked(body) : body;
+};
+
+const toHeaders = (res: ServerResponse) => {
+  const headers = new Headers();
+  Object.entries(res.getHeaders()).forEach(([name, value]) => {
+    if (value === undefined) return;
+    (Array.isArray(value) ? value : [value]).forEach((item) => headers.append(name, String(item)));
+  });
+  return headers;
+};
+
+/**
+ * Runs a request through a request listener such as an Express app without a server: the request
+ * is read from, and the response written to, a socket that only exists in memory. With a
+ * `timeout`, a request left unanswered rejects and its socket is destroyed.
+ */
+export const dispatch = (
+  app: RequestListener,
+  request: DispatchRequest,
+  { timeout, label = `${request.method.toUpperCase()} ${request.url}` }: DispatchOptions = {}
+): Promise<DispatchResponse> => {
+  const written: Buffer[] = [];
+  const socket = new Duplex({
+    read() {},
+    write(chunk: Buffer, encoding, callback) {
+      written.push(Buffer.from(chunk));
+      callback();
+    },
+  });
+  Object.assign(socket, { remoteAddress: '127.0.0.1', remotePort: 0, encrypted: false });
+
+  const body = request.body === undefined ? undefined : Buffer.from(request.body);
+  const headers: Record<string, string> = { host: 'localhost' };
+  Object.entries(request.headers).forEach(([name, value]) => {
+    headers[name.toLowerCase()] = value;
+  });
+  if (body) headers['content-length'] = String(body.length);
+
+  const req = new IncomingMessage(socket as any);
+  req.method = request.method.toUpperCase();
+  req.url = request.url;
+  req.httpVersion = '1.1';
+  req.httpVersionMajor = 1;
+  req.httpVersionMinor = 1;
+  req.headers = headers;
+  req.rawHeaders = Object.entries(headers).flat();
+  // Marked as fully received, or the request counts as aborted once read and takes the socket down.
+  req.complete = true;
+  if (body && body.length > 0) req.push(body);
+  req.push(null);
+
+  const res = new ServerResponse(req);
+  res.assignSocket(socket as any);
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const timer = timeout === undefined ? undefined : setTimeout(() => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      reject(new Error(`${label} was not answered within ${timeout}ms`));
+    }, timeout);
+
+    // `finish` once the response is written; `close` alone when it was cut off.
+    const settle = () => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      const response = { status: res.statusCode, headers: toHeaders(res), text: readBody(Buffer.concat(written)).toString('utf8') };
+      socket.destroy();
+      resolve(response);
+    };
+    res.once('finish', settle);
+    res.once('close', settle);
+
+    try {
+      app(req, res);
+    } catch (error) {
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      reject(error);
+    }
+  });
+};
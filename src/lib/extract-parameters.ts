@@ -1,6 +1,11 @@
-import { zodSchemaToOpenAPISchema } from './zod-to-openapi-schema';
+import { zodSchemaToOpenAPISchema, isOptionalSchema, ConversionContext, ConversionMode } from './zod-to-openapi-schema';
 
-export const extractParameters = (schema: any, paramType: 'path' | 'query' | 'header') => {
+export const extractParameters = (
+  schema: any,
+  paramType: 'path' | 'query' | 'header' | 'cookie',
+  context?: ConversionContext,
+  mode: ConversionMode = 'input'
+) => {
   if (!schema) return [];
   
   const def = schema._def || schema.def;
@@ -11,11 +16,13 @@ export const extractParameters = (schema: any, paramType: 'path' | 'query' | 'he
   
   for (const [key, value] of Object.entries(shape)) {
     const paramSchema = value as any;
-    const isOptional = paramSchema.isOptional && paramSchema.isOptional();
+    const isOptional = isOptionalSchema(paramSchema, mode);
     
-    const description = paramSchema.description || (paramSchema._def || paramSchema.def)?.description;
-    
-    const openApiSchema = zodSchemaToOpenAPISchema(paramSchema);
+    const openApiSchema = zodSchemaToOpenAPISchema(paramSchema, context, mode);
+
+    const description = openApiSchema?.description
+      || paramSchema.description
+      || (paramSchema._def || paramSchema.def)?.description;
     
     if (openApiSchema && openApiSchema.description) {
       delete openApiSchema.description;
@@ -31,6 +38,11 @@ export const extractParameters = (schema: any, paramType: 'path' | 'query' | 'he
     if (description) {
       param.description = description;
     }
+
+    if (openApiSchema?.type === 'array') {
+      param.style = paramType === 'query' || paramType === 'cookie' ? 'form' : 'simple';
+      param.explode = paramType === 'query';
+    }
     
     parameters.push(param);
   }
@@ -0,0 +1,48 @@
+import { ZodType } from '../zod';
+import type { Examples } from '../typed-router';
+
+/** Schemas keyed by media type, e.g. `{ 'application/json': schema, 'text/csv': z.string() }`. */
+export type ContentSchemas = Record<string, ZodType<any>>;
+
+export const isContentSchemas = (value: unknown): value is ContentSchemas => {
+  if (!value || typeof value !== 'object' || typeof (value as any).safeParse === 'function') return false;
+
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => key.includes('/'));
+};
+
+/** Examples keyed by media type, for bodies with several, e.g. `{ 'text/csv': { sample: { value: 'id,name' } } }`. */
+export type ContentExamples = Record<string, Examples>;
+
+const isContentExamples = (value: Examples | ContentExamples): value is ContentExamples => {
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => key.includes('/'));
+};
+
+/**
+ * The examples of one media type of a body: its own when they're keyed by media type, otherwise
+ * all of them for the first media type listed.
+ */
+export const selectContentExamples = (
+  examples: Examples | ContentExamples | undefined,
+  mediaTypes: string[],
+  mediaType: string
+): Examples | undefined => {
+  if (!examples) return undefined;
+  if (isContentExamples(examples)) return examples[mediaType];
+  return mediaType === mediaTypes[0] ? examples : undefined;
+};
+
+const normalizeMediaType = (value: string) => value.split(';')[0].trim().toLowerCase();
+
+export const matchesMediaType = (mediaType: string, pattern: string) => {
+  const [type, subtype] = normalizeMediaType(mediaType).split('/');
+  const [patternType, patternSubtype] = normalizeMediaType(pattern).split('/');
+
+  return (patternType === '*' || patternType === type) && (patternSubtype === '*' || patternSubtype === subtype);
+};
+
+export const selectContentSchema = (content: ContentSchemas, mediaType: string) => {
+  const match = Object.keys(content).find((pattern) => matchesMediaType(mediaType, pattern));
+  return match ? content[match] : undefined;
+};
@@ -0,0 +1,6 @@
+export const getObjectShape = (schema: any): Record<string, any> | undefined => {
+  const def = schema?._def || schema?.def;
+  if (!def || (def.typeName !== 'ZodObject' && def.type !== 'object')) return undefined;
+
+  return typeof def.shape === 'function' ? def.shape() : def.shape;
+};
@@ -0,0 +1,177 @@
+import { z, ZodIssue } from '../zod';
+import { getDef, getSchemaType, isOptionalSchema } from './zod-to-openapi-schema';
+
+/** Schemas whose children are checked one by one when they change on the way out. */
+const childSchemas = (def: any, schemaType: string): any[] => {
+  switch (schemaType) {
+    case 'optional':
+    case 'nonoptional':
+    case 'nullable':
+    case 'readonly':
+    case 'catch':
+    case 'default':
+    case 'prefault':
+      return [def.innerType];
+    case 'branded':
+    case 'array':
+      return [def.element ?? def.type];
+    case 'effects':
+      return [def.schema];
+    case 'pipe':
+      return [def.in, def.out];
+    case 'lazy':
+      return [def.getter()];
+    case 'object': {
+      const shape = typeof def.shape === 'function' ? def.shape() : def.shape;
+      return Object.values(shape);
+    }
+    case 'union':
+    case 'discriminatedUnion':
+      return Array.from(def.options);
+    case 'intersection':
+      return [def.left, def.right];
+    case 'record':
+    case 'set':
+      return [def.valueType];
+    case 'tuple':
+      return [...def.items, ...(def.rest ? [def.rest] : [])];
+    default:
+      return [];
+  }
+};
+
+const reshapes = (def: any, schemaType: string) => {
+  switch (schemaType) {
+    case 'transform':
+    case 'pipe':
+    case 'default':
+    case 'prefault':
+    case 'catch':
+      return true;
+    case 'effects':
+      return def.effect?.type !== 'refinement';
+    default:
+      return false;
+  }
+};
+
+const reshapingSchemas = new WeakMap<object, boolean>();
+
+/** Whether the schema, or one nested in it, outputs something else than it parses. */
+const changesOnOutput = (schema: any, visiting = new Set<object>()): boolean => {
+  if (reshapingSchemas.has(schema)) return reshapingSchemas.get(schema)!;
+  const def = getDef(schema);
+  // Recursive schemas change on output only if another part of them does.
+  if (!def || visiting.has(schema)) return false;
+
+  visiting.add(schema);
+  const schemaType = getSchemaType(def);
+  const result = reshapes(def, schemaType) || childSchemas(def, schemaType).some((child) => changesOnOutput(child, visiting));
+  visiting.delete(schema);
+  // Results found inside a cycle depend on where it was entered, so only complete ones are kept.
+  if (visiting.size === 0) reshapingSchemas.set(schema, result);
+  return result;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const parseInto = (schema: any, value: unknown, path: PropertyKey[], issues: ZodIssue[]) => {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    issues.push(...result.error.issues.map((issue: ZodIssue) => ({ ...issue, path: [...path, ...issue.path] })));
+  }
+};
+
+const checkOutput = (schema: any, value: unknown, path: PropertyKey[], issues: ZodIssue[]): void => {
+  const def = getDef(schema);
+  if (!def) return;
+
+  const invalid = (message: string) => {
+    issues.push({ code: 'custom', path, message } as ZodIssue);
+  };
+
+  // Schemas without transforms, defaults or catches output what they parse.
+  if (!changesOnOutput(schema)) return parseInto(schema, value, path, issues);
+
+  const schemaType = getSchemaType(def);
+  switch (schemaType) {
+    // A transform's output isn't described by any schema.
+    case 'transform':
+      return;
+    case 'effects':
+      if (def.effect?.type === 'transform') return;
+      return checkOutput(def.schema, value, path, issues);
+    case 'pipe':
+      return checkOutput(def.out, value, path, issues);
+    case 'default':
+    case 'prefault':
+      if (value === undefined) return invalid('Required: a default is always part of the output');
+      return checkOutput(def.innerType, value, path, issues);
+    case 'optional':
+      if (value === undefined) return;
+      return checkOutput(def.innerType, value, path, issues);
+    case 'nullable':
+      if (value === null) return;
+      return checkOutput(def.innerType, value, path, issues);
+    case 'nonoptional':
+    case 'catch':
+    case 'readonly':
+      return checkOutput(def.innerType, value, path, issues);
+    case 'branded':
+      return checkOutput(def.type, value, path, issues);
+    case 'lazy':
+      return checkOutput(def.getter(), value, path, issues);
+    case 'object': {
+      if (!isPlainObject(value)) return invalid('Expected an object');
+      const shape = typeof def.shape === 'function' ? def.shape() : def.shape;
+      Object.entries(shape).forEach(([key, property]: [string, any]) => {
+        if (value[key] === undefined && isOptionalSchema(property, 'output')) return;
+        checkOutput(property, value[key], [...path, key], issues);
+      });
+      return;
+    }
+    case 'array':
+      if (!Array.isArray(value)) return invalid('Expected an array');
+      value.forEach((item, index) => checkOutput(def.element ?? def.type, item, [...path, index], issues));
+      return;
+    case 'tuple':
+      if (!Array.isArray(value)) return invalid('Expected an array');
+      value.forEach((item, index) => {
+        const itemSchema = def.items[index] ?? def.rest;
+        if (itemSchema) checkOutput(itemSchema, item, [...path, index], issues);
+      });
+      return;
+    case 'record':
+      if (!isPlainObject(value)) return invalid('Expected an object');
+      Object.entries(value).forEach(([key, item]) => checkOutput(def.valueType, item, [...path, key], issues));
+      return;
+    case 'union':
+    case 'discriminatedUnion': {
+      const matches = Array.from(def.options).some((option) => {
+        const optionIssues: ZodIssue[] = [];
+        checkOutput(option, value, path, optionIssues);
+        return optionIssues.length === 0;
+      });
+      if (!matches) invalid('Matches none of the union options');
+      return;
+    }
+    case 'intersection':
+      checkOutput(def.left, value, path, issues);
+      checkOutput(def.right, value, path, issues);
+      return;
+    default:
+      return parseInto(schema, value, path, issues);
+  }
+};
+
+/**
+ * Checks a value against what the schema outputs rather than what it parses: after a pipe, by the
+ * last schema, with defaults required and transformed values taken as they are.
+ */
+export const safeParseOutput = (schema: any, value: unknown): { success: true } | { success: false; error: z.ZodError } => {
+  const issues: ZodIssue[] = [];
+  checkOutput(schema, value, [], issues);
+  return issues.length === 0 ? { success: true } : { success: false, error: new z.ZodError(issues as any) };
+};
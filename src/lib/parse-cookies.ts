@@ -0,0 +1,34 @@
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Parses a raw `Cookie` header, for apps that do not use cookie-parser.
+ * The first occurrence of a name wins, as browsers send the most specific cookie first.
+ */
+export const parseCookies = (header: string | undefined): Record<string, string> => {
+  // Without a prototype, names such as `constructor` or `__proto__` are cookies like any other.
+  const cookies: Record<string, string> = Object.create(null);
+  if (!header) return cookies;
+
+  header.split(';').forEach((pair) => {
+    const index = pair.indexOf('=');
+    if (index === -1) return;
+
+    const name = pair.slice(0, index).trim();
+    let value = pair.slice(index + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+
+    if (name && !(name in cookies)) {
+      cookies[name] = decode(value);
+    }
+  });
+
+  return cookies;
+};
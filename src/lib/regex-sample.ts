@@ -0,0 +1,186 @@
+type RegexNode =
+  | { kind: 'text'; chars: string }
+  | { kind: 'sequence'; items: RegexNode[] }
+  | { kind: 'alternation'; options: RegexNode[] }
+  | { kind: 'repeat'; item: RegexNode; min: number; max: number };
+
+const empty: RegexNode = { kind: 'text', chars: '' };
+
+/** Characters tried in order for a class: readable ones first. */
+const preferredChars = [
+  ...'abcdefghijklmnopqrstuvwxyz',
+  ...'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  ...'0123456789',
+  ...' -_.@:/+',
+  ...Array.from({ length: 95 }, (_, index) => String.fromCharCode(32 + index)),
+];
+
+const escapeClasses: Record<string, string> = {
+  d: '[0-9]',
+  D: '[^0-9]',
+  w: '[a-zA-Z0-9_]',
+  W: '[^a-zA-Z0-9_]',
+  s: '[ ]',
+  S: '[^ \\t\\n\\r]',
+};
+
+const controlChars: Record<string, string> = { n: '\n', r: '\r', t: '\t', f: '\f', v: '\v', '0': '\0' };
+
+/** A character matching a class body such as `a-z_` or `^0-9`, or an empty string when none does. */
+const pickFromClass = (body: string) => {
+  const matcher = new RegExp(`^[${body}]$`);
+  const match = preferredChars.find((char) => matcher.test(char));
+  if (match) return match;
+
+  for (let code = 128; code <= 0xffff; code++) {
+    if (matcher.test(String.fromCharCode(code))) return String.fromCharCode(code);
+  }
+  return '';
+};
+
+/** Parses the subset of regular expressions string patterns use into a tree to generate from. */
+const parse = (pattern: string): RegexNode => {
+  let position = 0;
+
+  const parseClass = () => {
+    const start = position;
+    position++;
+    while (position < pattern.length && pattern[position] !== ']') {
+      position += pattern[position] === '\\' ? 2 : 1;
+    }
+    position++;
+    return pickFromClass(pattern.slice(start + 1, position - 1));
+  };
+
+  const parseEscape = (): RegexNode => {
+    const char = pattern[position + 1] ?? '';
+    position += 2;
+    if (escapeClasses[char]) return { kind: 'text', chars: pickFromClass(escapeClasses[char].slice(1, -1)) };
+    if (controlChars[char]) return { kind: 'text', chars: controlChars[char] };
+    // Word boundaries and back references match without adding characters of their own.
+    if (char === 'b' || char === 'B' || /[1-9]/.test(char)) return empty;
+    if (char === 'x' || char === 'u') {
+      const braced = pattern[position] === '{';
+      const end = braced ? pattern.indexOf('}', position) + 1 : position + (char === 'x' ? 2 : 4);
+      const code = parseInt(pattern.slice(position, end).replace(/[{}]/g, ''), 16);
+      position = end;
+      return { kind: 'text', chars: String.fromCodePoint(code) };
+    }
+    if (char === 'p' || char === 'P') {
+      position = pattern.indexOf('}', position) + 1;
+      return { kind: 'text', chars: 'a' };
+    }
+    return { kind: 'text', chars: char };
+  };
+
+  const parseQuantifier = (item: RegexNode): RegexNode => {
+    const char = pattern[position];
+    let min: number;
+    let max: number;
+    if (char === '*' || char === '+' || char === '?') {
+      min = char === '+' ? 1 : 0;
+      max = char === '?' ? 1 : Infinity;
+      position++;
+    } else if (char === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(position))) {
+      const end = pattern.indexOf('}', position);
+      const [low, high] = pattern.slice(position + 1, end).split(',');
+      min = Number(low);
+      max = high === undefined ? min : high === '' ? Infinity : Number(high);
+      position = end + 1;
+    } else {
+      return item;
+    }
+    if (pattern[position] === '?') position++;
+    return { kind: 'repeat', item, min, max };
+  };
+
+  const parseAlternation = (): RegexNode => {
+    const options: RegexNode[] = [];
+    let items: RegexNode[] = [];
+
+    while (position < pattern.length && pattern[position] !== ')') {
+      const char = pattern[position];
+      let atom: RegexNode;
+      if (char === '|') {
+        options.push({ kind: 'sequence', items });
+        items = [];
+        position++;
+        continue;
+      } else if (char === '(') {
+        position++;
+        let lookaround = false;
+        if (pattern[position] === '?') {
+          lookaround = /^\?<?[=!]/.test(pattern.slice(position));
+          // Skips `?:`, `?=`, `?!`, `?<=`, `?<!` and `?<name>`.
+          position = pattern[position + 1] === '<' && !lookaround
+            ? pattern.indexOf('>', position) + 1
+            : position + (pattern[position + 1] === '<' ? 3 : 2);
+        }
+        const group = parseAlternation();
+        position++;
+        // Lookarounds add no characters; whether the result satisfies them is checked afterwards.
+        atom = lookaround ? empty : group;
+      } else if (char === '[') {
+        atom = { kind: 'text', chars: parseClass() };
+      } else if (char === '\\') {
+        atom = parseEscape();
+      } else if (char === '^' || char === '$') {
+        position++;
+        continue;
+      } else if (char === '.') {
+        position++;
+        atom = { kind: 'text', chars: 'a' };
+      } else {
+        position++;
+        atom = { kind: 'text', chars: char };
+      }
+      items.push(parseQuantifier(atom));
+    }
+
+    options.push({ kind: 'sequence', items });
+    return options.length === 1 ? options[0] : { kind: 'alternation', options };
+  };
+
+  return parseAlternation();
+};
+
+/** Generates from the tree, repeating unbounded parts while `budget.extra` characters are still wanted. */
+const generate = (node: RegexNode, budget: { extra: number }): string => {
+  switch (node.kind) {
+    case 'text':
+      return node.chars;
+    case 'sequence':
+      return node.items.map((item) => generate(item, budget)).join('');
+    case 'alternation':
+      return generate(node.options[0], budget);
+    case 'repeat': {
+      const parts = Array.from({ length: node.min }, () => generate(node.item, budget));
+      while (parts.length < node.max && budget.extra > 0) {
+        const part = generate(node.item, budget);
+        if (part.length === 0) break;
+        parts.push(part);
+        budget.extra -= part.length;
+      }
+      return parts.join('');
+    }
+  }
+};
+
+/**
+ * A readable string matching `pattern`, at least `minLength` long where the pattern allows it,
+ * or undefined when the pattern uses syntax the generated string doesn't satisfy.
+ */
+export const sampleForPattern = (pattern: string, minLength = 1): string | undefined => {
+  let regex: RegExp;
+  let tree: RegexNode;
+  try {
+    regex = new RegExp(pattern);
+    tree = parse(pattern);
+  } catch {
+    return undefined;
+  }
+
+  const shortest = generate(tree, { extra: 0 });
+  const sample = shortest.length >= minLength ? shortest : generate(tree, { extra: minLength - shortest.length });
+  return regex.test(sample) ? sample : undefined;
+};
@@ -0,0 +1,11 @@
+import { ZodType } from '../zod';
+import type { ResponseDefinition, ResponseEntry } from '../typed-router';
+import { isContentSchemas } from './media-types';
+
+const isZodType = (value: unknown): value is ZodType<any> => {
+  return typeof (value as any)?.safeParse === 'function';
+};
+
+export const toResponseDefinition = (entry: ResponseEntry): ResponseDefinition => {
+  return isZodType(entry) || isContentSchemas(entry) ? { body: entry } : entry;
+};
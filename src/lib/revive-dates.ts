@@ -0,0 +1,22 @@
+import { ZodType } from '../zod';
+
+/**
+ * Turns the date strings of a JSON value back into `Date`s where the schema rejects them for
+ * expecting one: `z.date()` only accepts `Date`s, which JSON carries as date-time strings.
+ * Mutates and returns `value`.
+ */
+export const reviveDates = (schema: ZodType<any>, value: unknown) => {
+  const result = schema.safeParse(value);
+  if (result.success || !value || typeof value !== 'object') return value;
+
+  result.error.issues
+    .filter((issue: any) => issue.code === 'invalid_type' && issue.expected === 'date' && issue.path.length > 0)
+    .forEach(({ path }) => {
+      const parent = path.slice(0, -1).reduce<any>((current, key) => current?.[key as any], value);
+      const key = path[path.length - 1] as any;
+      if (parent && typeof parent[key] === 'string') {
+        parent[key] = new Date(parent[key]);
+      }
+    });
+  return value;
+};
@@ -0,0 +1,45 @@
+import { zodToOpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { globalRegistry } from 'zod';
+
+// zod-to-openapi keeps `.openapi()` metadata, including `.openapi('Name')` ref ids, in this
+// registry, keyed by schema instance. Only Zod 4 schemas can be looked up in it.
+const isRegistrable = (schema: any) => Boolean(schema?._zod);
+
+/** Names of Zod 3 schemas, which the registry can't hold. */
+const zod3RefIds = new WeakMap<object, string>();
+
+export const getSchemaRefId = (schema: any): string | undefined => {
+  if (!isRegistrable(schema)) {
+    return schema && typeof schema === 'object' ? zod3RefIds.get(schema) : undefined;
+  }
+
+  const refId = zodToOpenAPIRegistry.get(schema)?._internal?.refId;
+  // Wrappers such as `.optional()` inherit the metadata of the named schema they wrap.
+  const innerType = schema._zod.def.innerType;
+  if (refId && innerType && zodToOpenAPIRegistry.get(innerType)?._internal?.refId === refId) {
+    return undefined;
+  }
+  return refId;
+};
+
+export const setSchemaRefId = (schema: any, refId: string) => {
+  if (!isRegistrable(schema)) {
+    zod3RefIds.set(schema, refId);
+    return;
+  }
+
+  const metadata = zodToOpenAPIRegistry.get(schema);
+  zodToOpenAPIRegistry.add(schema, {
+    ...metadata,
+    _internal: { ...metadata?._internal, refId },
+  });
+};
+
+/** OpenAPI fields set with `.meta()` or `.openapi()` (`example`, `format`...). */
+export const getSchemaMetadata = (schema: any): Record<string, unknown> => {
+  if (!isRegistrable(schema)) return {};
+
+  const { id: _id, ...meta } = globalRegistry?.get(schema) ?? {};
+  const { _internal, param: _param, ...openapi } = zodToOpenAPIRegistry.get(schema) ?? {};
+  return { ...meta, ...openapi };
+};
@@ -1,309 +1,696 @@
-export const zodSchemaToOpenAPISchema = (schema: any): any => {
-  if (!schema) return undefined;
-  
-  const def = schema._def || schema.def;
-  if (!def) return { type: 'string' };
-  
-  const schemaType = def.typeName || def.type;
-  
-  const description = schema.description || def.description;
-  
-  if (schemaType === 'ZodOptional' || schemaType === 'optional') {
-    const innerSchema = zodSchemaToOpenAPISchema(def.innerType || def.type);
-    if (description && innerSchema) {
-      innerSchema.description = description;
-    }
-    return innerSchema;
+import { getSchemaRefId, getSchemaMetadata } from './schema-refs';
+
+/** `input` documents what a schema accepts (requests), `output` what it produces (responses). */
+export type ConversionMode = 'input' | 'output';
+
+export interface ConversionContext {
+  mode: ConversionMode;
+  /**
+   * Definitions of the named and recursive schemas referenced during the conversion, in each
+   * mode they were referenced in, to be emitted under `components.schemas`.
+   */
+  components: Map<string, { input?: any; output?: any }>;
+  inProgress: Set<any>;
+  recursiveNames: Map<any, string>;
+}
+
+export const createConversionContext = (): ConversionContext => ({
+  mode: 'output',
+  components: new Map(),
+  inProgress: new Set(),
+  recursiveNames: new Map(),
+});
+
+/** A string, number, array or set constraint, read from either Zod 3 or Zod 4 internals. */
+type Check =
+  | { kind: 'format'; format: string }
+  | { kind: 'pattern'; pattern: string }
+  | { kind: 'min' | 'max'; value: number; inclusive: boolean }
+  | { kind: 'length'; value: number }
+  | { kind: 'multipleOf'; value: number }
+  | { kind: 'int' };
+
+/** Zod 3 type names whose Zod 4 counterpart is not simply the name without its `Zod` prefix. */
+const zod3TypeNames: Record<string, string> = {
+  ZodNativeEnum: 'enum',
+  ZodDiscriminatedUnion: 'union',
+  ZodPipeline: 'pipe',
+  ZodNaN: 'nan',
+  ZodBigInt: 'bigint',
+};
+
+/** Zod string formats (named alike in both versions) and the OpenAPI format they document. */
+const stringFormats: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  guid: 'uuid',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time',
+  duration: 'duration',
+  ipv4: 'ipv4',
+  ipv6: 'ipv6',
+  cidrv4: 'cidrv4',
+  cidrv6: 'cidrv6',
+  base64: 'byte',
+  base64url: 'base64url',
+  cuid: 'cuid',
+  cuid2: 'cuid2',
+  ulid: 'ulid',
+  nanoid: 'nanoid',
+  emoji: 'emoji',
+  jwt: 'jwt',
+  e164: 'e164',
+  xid: 'xid',
+  ksuid: 'ksuid',
+};
+
+export const getDef = (schema: any) => schema?._def || schema?.def;
+
+/** Normalizes Zod 3 `typeName`s (`ZodString`) and Zod 4 `type`s (`string`) to the Zod 4 names. */
+export const getSchemaType = (def: any): string => {
+  if (!def.typeName) return def.type;
+  return zod3TypeNames[def.typeName] ?? def.typeName.charAt(3).toLowerCase() + def.typeName.slice(4);
+};
+
+/**
+ * Zod 3 has no optionality flags; they are derived the way Zod 4 sets `optin` and `optout`, so
+ * both versions document the same properties as required.
+ */
+const isZod3Optional = (schema: any, mode: ConversionMode): boolean => {
+  const def = getDef(schema);
+  if (!def) return false;
+
+  switch (getSchemaType(def)) {
+    case 'optional':
+    case 'undefined':
+      return true;
+    case 'default':
+      return mode === 'input';
+    case 'catch':
+    case 'nullable':
+    case 'readonly':
+      return isZod3Optional(def.innerType, mode);
+    case 'branded':
+      return isZod3Optional(def.type, mode);
+    case 'effects':
+      // A preprocess step takes any input; a transform outputs whatever it returns.
+      if (def.effect?.type === 'preprocess') return mode === 'output' && isZod3Optional(def.schema, mode);
+      if (def.effect?.type === 'transform' && mode === 'output') return false;
+      return isZod3Optional(def.schema, mode);
+    case 'pipe':
+      return isZod3Optional(mode === 'input' ? def.in : def.out, mode);
+    case 'lazy':
+      return isZod3Optional(def.getter(), mode);
+    case 'union':
+      return def.options.some((option: any) => isZod3Optional(option, mode));
+    default:
+      return false;
   }
-  
-  if (schemaType === 'ZodNullable' || schemaType === 'nullable') {
-    const innerSchema = zodSchemaToOpenAPISchema(def.innerType || def.type);
-    if (innerSchema) {
-      innerSchema.nullable = true;
-      if (description) {
-        innerSchema.description = description;
-      }
-    }
-    return innerSchema;
+};
+
+/** Whether an object property may be left out of the input, or be missing from the output. */
+export const isOptionalSchema = (schema: any, mode: ConversionMode = 'input'): boolean => {
+  if (schema?._zod) {
+    return (mode === 'input' ? schema._zod.optin : schema._zod.optout) === 'optional';
   }
-  
-  if (schemaType === 'ZodDefault' || schemaType === 'default') {
-    const innerSchema = zodSchemaToOpenAPISchema(def.innerType || def.type);
-    if (innerSchema) {
-      if (def.defaultValue !== undefined) {
-        innerSchema.default = typeof def.defaultValue === 'function' ? def.defaultValue() : def.defaultValue;
-      }
-      if (description) {
-        innerSchema.description = description;
-      }
+  return isZod3Optional(schema, mode);
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toFormat = (format: string): Check[] => {
+  return stringFormats[format] ? [{ kind: 'format', format: stringFormats[format] }] : [];
+};
+
+const readZod3Checks = (def: any): Check[] => {
+  const checks: Check[] = [];
+
+  for (const check of def.checks ?? []) {
+    switch (check.kind) {
+      case 'min':
+      case 'max':
+        checks.push({ kind: check.kind, value: Number(check.value), inclusive: check.inclusive ?? true });
+        break;
+      case 'length':
+        checks.push({ kind: 'length', value: check.value });
+        break;
+      case 'int':
+        checks.push({ kind: 'int' });
+        break;
+      case 'multipleOf':
+        checks.push({ kind: 'multipleOf', value: Number(check.value) });
+        break;
+      case 'regex':
+        checks.push({ kind: 'pattern', pattern: check.regex.source });
+        break;
+      case 'startsWith':
+        checks.push({ kind: 'pattern', pattern: `^${escapeRegExp(check.value)}` });
+        break;
+      case 'endsWith':
+        checks.push({ kind: 'pattern', pattern: `${escapeRegExp(check.value)}$` });
+        break;
+      case 'includes':
+        checks.push({ kind: 'pattern', pattern: escapeRegExp(check.value) });
+        break;
+      case 'ip':
+      case 'cidr':
+        checks.push(...(check.version ? toFormat(`${check.kind}${check.version}`) : []));
+        break;
+      default:
+        checks.push(...toFormat(check.kind));
     }
-    return innerSchema;
   }
-  
-  if (schemaType === 'ZodEffects' || schemaType === 'effects') {
-    const innerSchema = zodSchemaToOpenAPISchema(def.schema);
-    if (description && innerSchema) {
-      innerSchema.description = description;
+
+  // Array and set sizes live on the definition itself rather than in `checks`.
+  const minimum = def.minLength ?? def.minSize;
+  const maximum = def.maxLength ?? def.maxSize;
+  if (minimum) checks.push({ kind: 'min', value: minimum.value, inclusive: true });
+  if (maximum) checks.push({ kind: 'max', value: maximum.value, inclusive: true });
+  if (def.exactLength) checks.push({ kind: 'length', value: def.exactLength.value });
+
+  return checks;
+};
+
+const readZod4Checks = (def: any): Check[] => {
+  const checks: Check[] = [];
+
+  // Format schemas such as `z.email()` or `z.int()` are checks themselves.
+  const definitions = [def, ...(def.checks ?? []).map((check: any) => check._zod?.def ?? check)];
+
+  for (const check of definitions) {
+    switch (check.check) {
+      case 'string_format':
+        if (check.format === 'regex' || check.format === 'lowercase' || check.format === 'uppercase') {
+          checks.push({ kind: 'pattern', pattern: check.pattern.source });
+        } else if (check.format === 'starts_with') {
+          checks.push({ kind: 'pattern', pattern: `^${escapeRegExp(check.prefix)}` });
+        } else if (check.format === 'ends_with') {
+          checks.push({ kind: 'pattern', pattern: `${escapeRegExp(check.suffix)}$` });
+        } else if (check.format === 'includes') {
+          checks.push({ kind: 'pattern', pattern: escapeRegExp(check.includes) });
+        } else {
+          checks.push(...toFormat(check.format));
+        }
+        break;
+      case 'number_format':
+        if (check.format === 'safeint' || check.format === 'int32' || check.format === 'uint32') {
+          checks.push({ kind: 'int' });
+        }
+        break;
+      case 'greater_than':
+        checks.push({ kind: 'min', value: Number(check.value), inclusive: check.inclusive });
+        break;
+      case 'less_than':
+        checks.push({ kind: 'max', value: Number(check.value), inclusive: check.inclusive });
+        break;
+      case 'multiple_of':
+        checks.push({ kind: 'multipleOf', value: Number(check.value) });
+        break;
+      case 'min_length':
+      case 'min_size':
+        checks.push({ kind: 'min', value: check.minimum, inclusive: true });
+        break;
+      case 'max_length':
+      case 'max_size':
+        checks.push({ kind: 'max', value: check.maximum, inclusive: true });
+        break;
+      case 'length_equals':
+      case 'size_equals':
+        checks.push({ kind: 'length', value: check.length ?? check.size });
+        break;
     }
-    return innerSchema;
   }
-  
-  if (schemaType === 'ZodNullish' || schemaType === 'nullish') {
-    const innerSchema = zodSchemaToOpenAPISchema(def.innerType || def.type);
-    if (innerSchema) {
-      innerSchema.nullable = true;
-      if (description) {
-        innerSchema.description = description;
-      }
+
+  return checks;
+};
+
+const readChecks = (def: any) => (def.typeName ? readZod3Checks(def) : readZod4Checks(def));
+
+const applyStringChecks = (result: any, checks: Check[]) => {
+  const patterns: string[] = [];
+
+  for (const check of checks) {
+    if (check.kind === 'format') result.format = check.format;
+    if (check.kind === 'min') result.minLength = check.value;
+    if (check.kind === 'max') result.maxLength = check.value;
+    if (check.kind === 'length') {
+      result.minLength = check.value;
+      result.maxLength = check.value;
     }
-    return innerSchema;
+    if (check.kind === 'pattern') patterns.push(check.pattern);
   }
-  
-  if (schemaType === 'ZodBranded' || schemaType === 'branded') {
-    const innerSchema = zodSchemaToOpenAPISchema(def.type);
-    if (description && innerSchema) {
-      innerSchema.description = description;
-    }
-    return innerSchema;
+
+  if (patterns.length > 0) {
+    result.pattern = patterns[0];
   }
-  
-  if (schemaType === 'ZodReadonly' || schemaType === 'readonly') {
-    const innerSchema = zodSchemaToOpenAPISchema(def.innerType || def.type);
-    if (innerSchema) {
-      innerSchema.readOnly = true;
-      if (description) {
-        innerSchema.description = description;
-      }
-    }
-    return innerSchema;
+  if (patterns.length > 1) {
+    result.allOf = patterns.slice(1).map((pattern) => ({ pattern }));
   }
-  
-  if (schemaType === 'ZodCatch' || schemaType === 'catch') {
-    const innerSchema = zodSchemaToOpenAPISchema(def.innerType || def.type);
-    if (description && innerSchema) {
-      innerSchema.description = description;
+};
+
+const applyNumberChecks = (result: any, checks: Check[]) => {
+  for (const check of checks) {
+    if (check.kind === 'int') result.type = 'integer';
+    if (check.kind === 'multipleOf') result.multipleOf = check.value;
+    if (check.kind === 'min') {
+      result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+    }
+    if (check.kind === 'max') {
+      result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
     }
-    return innerSchema;
   }
-  
-  if (schemaType === 'ZodPipeline' || schemaType === 'pipeline') {
-    const innerSchema = zodSchemaToOpenAPISchema(def.out || def.type);
-    if (description && innerSchema) {
-      innerSchema.description = description;
+};
+
+const applyItemChecks = (result: any, checks: Check[]) => {
+  for (const check of checks) {
+    if (check.kind === 'min') result.minItems = check.value;
+    if (check.kind === 'max') result.maxItems = check.value;
+    if (check.kind === 'length') {
+      result.minItems = check.value;
+      result.maxItems = check.value;
     }
-    return innerSchema;
   }
-  
-  if (schemaType === 'ZodLazy' || schemaType === 'lazy') {
-    return { type: 'object', ...(description && { description }) };
+};
+
+const getEnumValues = (def: any): unknown[] => {
+  const entries = def.entries ?? def.values;
+  if (Array.isArray(entries)) return entries;
+
+  // Numeric TypeScript enums map their values back to the member names; those are not members.
+  return Object.keys(entries)
+    .filter((key) => typeof entries[entries[key]] !== 'number')
+    .map((key) => entries[key]);
+};
+
+const toJsonValue = (value: unknown) => (typeof value === 'bigint' ? Number(value) : value);
+
+const typeOfValues = (values: unknown[]) => {
+  const types = [...new Set(values.map((value) => {
+    if (value === null) return 'null';
+    return typeof value === 'bigint' ? 'integer' : typeof value;
+  }))];
+  return types.length === 1 ? types[0] : types;
+};
+
+/** OpenAPI 3.1 has no `nullable`: `null` joins the schema's types, or the schema is wrapped in `anyOf`. */
+const toNullable = (schema: any) => {
+  if (Object.keys(schema).length === 0) return schema;
+
+  if (!schema.type || schema.$ref) {
+    const { description, ...rest } = schema;
+    return {
+      anyOf: [rest, { type: 'null' }],
+      ...(description && { description }),
+    };
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  schema.type = types.includes('null') ? types : [...types, 'null'];
+  if (schema.enum && !schema.enum.includes(null)) {
+    schema.enum = [...schema.enum, null];
+  }
+  return schema;
+};
+
+/**
+ * A pipe accepts what its first schema accepts and produces what its last one produces. Its input
+ * is documented by the output schema when the first one is a bare transform (`z.preprocess()`).
+ */
+const getPipeTarget = (def: any, mode: ConversionMode) => {
+  if (mode === 'output') return def.out;
+
+  const inDef = getDef(def.in);
+  return inDef && getSchemaType(inDef) === 'transform' ? def.out : def.in;
+};
+
+const convertType = (schema: any, def: any, context: ConversionContext): any => {
+  const schemaType = getSchemaType(def);
+
+  const description = schema.description || def.description;
+
+  const describe = (result: any) => {
+    if (result && description) {
+      result.description = description;
+    }
+    return result;
+  };
+
+  switch (schemaType) {
+    case 'optional':
+    case 'nonoptional':
+    case 'catch':
+      return describe(convertSchema(def.innerType, context));
+
+    case 'nullable': {
+      const innerSchema = convertSchema(def.innerType, context);
+      return describe(innerSchema && toNullable(innerSchema));
+    }
+
+    // Defaults make a value optional for clients; it's always present once parsed.
+    case 'default':
+    case 'prefault': {
+      const innerSchema = convertSchema(def.innerType, context);
+      if (innerSchema && context.mode === 'input' && def.defaultValue !== undefined) {
+        const defaultValue = typeof def.defaultValue === 'function' ? def.defaultValue() : def.defaultValue;
+        innerSchema.default = defaultValue instanceof Date ? defaultValue.toISOString() : toJsonValue(defaultValue);
+      }
+      return describe(innerSchema);
+    }
+
+    case 'readonly': {
+      const innerSchema = convertSchema(def.innerType, context);
+      if (innerSchema) {
+        innerSchema.readOnly = true;
+      }
+      return describe(innerSchema);
+    }
+
+    // Zod 3 only: refinements, transforms and preprocessing wrap the schema they apply to.
+    // A transform's output isn't described by any schema.
+    case 'effects':
+      if (context.mode === 'output' && def.effect?.type === 'transform') {
+        return describe({});
+      }
+      return describe(convertSchema(def.schema, context));
+
+    // Zod 3 only: Zod 4 brands don't wrap the schema.
+    case 'branded':
+      return describe(convertSchema(def.type, context));
+
+    case 'pipe':
+      return describe(convertSchema(getPipeTarget(def, context.mode), context));
+
+    case 'promise':
+      return describe(convertSchema(def.innerType ?? def.type, context));
+
+    case 'lazy':
+      return describe(convertSchema(def.getter(), context));
   }
-  
+
   const result: any = {};
-  
+
   switch (schemaType) {
-    case 'ZodString':
     case 'string':
       result.type = 'string';
-      if (def.checks) {
-        for (const check of def.checks) {
-          if (check.kind === 'uuid') result.format = 'uuid';
-          if (check.kind === 'email') result.format = 'email';
-          if (check.kind === 'url') result.format = 'uri';
-          if (check.kind === 'datetime') result.format = 'date-time';
-          if (check.kind === 'date') result.format = 'date';
-          if (check.kind === 'time') result.format = 'time';
-          if (check.kind === 'min') result.minLength = check.value;
-          if (check.kind === 'max') result.maxLength = check.value;
-          if (check.kind === 'length') {
-            result.minLength = check.value;
-            result.maxLength = check.value;
-          }
-          if (check.kind === 'regex') result.pattern = check.regex.source;
-        }
-      }
+      applyStringChecks(result, readChecks(def));
       break;
-      
-    case 'ZodNumber':
+
     case 'number':
       result.type = 'number';
-      if (def.checks) {
-        for (const check of def.checks) {
-          if (check.kind === 'int') result.type = 'integer';
-          if (check.kind === 'min') {
-            result.minimum = check.value;
-            if (!check.inclusive) result.exclusiveMinimum = true;
-          }
-          if (check.kind === 'max') {
-            result.maximum = check.value;
-            if (!check.inclusive) result.exclusiveMaximum = true;
-          }
-          if (check.kind === 'multipleOf') result.multipleOf = check.value;
-        }
-      }
+      applyNumberChecks(result, readChecks(def));
       break;
-      
-    case 'ZodBoolean':
+
+    case 'nan':
+      result.type = 'number';
+      break;
+
+    case 'bigint':
+      result.type = 'integer';
+      result.format = 'int64';
+      applyNumberChecks(result, readChecks(def));
+      break;
+
     case 'boolean':
+    case 'success':
       result.type = 'boolean';
       break;
-      
-    case 'ZodArray':
+
     case 'array':
       result.type = 'array';
-      result.items = zodSchemaToOpenAPISchema(def.type);
-      if (def.minLength) result.minItems = def.minLength.value;
-      if (def.maxLength) result.maxItems = def.maxLength.value;
+      result.items = convertSchema(def.element ?? def.type, context);
+      applyItemChecks(result, readChecks(def));
+      break;
+
+    case 'set':
+      result.type = 'array';
+      result.uniqueItems = true;
+      result.items = convertSchema(def.valueType, context);
+      applyItemChecks(result, readChecks(def));
+      break;
+
+    case 'tuple':
+      result.type = 'array';
+      if (def.items && def.items.length > 0) {
+        result.prefixItems = def.items.map((item: any) => convertSchema(item, context));
+        result.minItems = def.items.length;
+      }
+      if (def.rest) {
+        result.items = convertSchema(def.rest, context);
+      } else if (def.items) {
+        result.maxItems = def.items.length;
+      }
       break;
-      
-    case 'ZodObject':
-    case 'object':
+
+    case 'object': {
       result.type = 'object';
       result.properties = {};
       const shape = typeof def.shape === 'function' ? def.shape() : def.shape;
       const required: string[] = [];
-      
+
       for (const [key, value] of Object.entries(shape)) {
-        result.properties[key] = zodSchemaToOpenAPISchema(value);
-        const fieldSchema = value as any;
-        if (fieldSchema && fieldSchema.isOptional && !fieldSchema.isOptional()) {
+        result.properties[key] = convertSchema(value, context);
+        if (!isOptionalSchema(value, context.mode)) {
           required.push(key);
         }
       }
-      
+
       if (required.length > 0) {
         result.required = required;
       }
+
+      // Zod 3 keeps `unknownKeys` next to a `ZodNever` catchall; Zod 4 only has the catchall.
+      const catchallType = def.catchall ? getSchemaType(getDef(def.catchall)) : undefined;
+      if (def.unknownKeys === 'strict' || (catchallType === 'never' && !def.unknownKeys)) {
+        result.additionalProperties = false;
+      } else if (catchallType && catchallType !== 'never' && catchallType !== 'unknown') {
+        result.additionalProperties = convertSchema(def.catchall, context);
+      }
       break;
-      
-    case 'ZodEnum':
-    case 'enum':
-      result.type = 'string';
-      result.enum = def.values;
+    }
+
+    case 'record':
+      result.type = 'object';
+      result.additionalProperties = convertSchema(def.valueType, context);
       break;
-      
-    case 'ZodNativeEnum':
-    case 'nativeEnum':
-      result.type = 'string';
-      result.enum = Object.values(def.values);
+
+    case 'map':
+      result.type = 'object';
+      result.additionalProperties = true;
+      break;
+
+    case 'enum': {
+      const values = getEnumValues(def);
+      result.type = typeOfValues(values);
+      result.enum = values;
+      break;
+    }
+
+    case 'literal': {
+      const values = (def.values ?? [def.value]).map(toJsonValue);
+      result.type = typeOfValues(values);
+      result.enum = values;
       break;
-      
-    case 'ZodLiteral':
-    case 'literal':
-      result.type = typeof def.value;
-      result.enum = [def.value];
+    }
+
+    case 'template_literal':
+      result.type = 'string';
+      if (schema._zod?.pattern) {
+        result.pattern = schema._zod.pattern.source;
+      }
       break;
-      
-    case 'ZodUnion':
+
     case 'union':
-      result.oneOf = def.options.map((option: any) => zodSchemaToOpenAPISchema(option));
+      result.oneOf = Array.from(def.options).map((option: any) => convertSchema(option, context));
+      if (def.discriminator) {
+        result.discriminator = { propertyName: def.discriminator };
+      }
       break;
-      
-    case 'ZodIntersection':
+
     case 'intersection':
       result.allOf = [
-        zodSchemaToOpenAPISchema(def.left),
-        zodSchemaToOpenAPISchema(def.right),
+        convertSchema(def.left, context),
+        convertSchema(def.right, context),
       ];
       break;
-      
-    case 'ZodRecord':
-    case 'record':
-      result.type = 'object';
-      result.additionalProperties = zodSchemaToOpenAPISchema(def.valueType);
-      break;
-      
-    case 'ZodTuple':
-    case 'tuple':
-      result.type = 'array';
-      if (def.items && def.items.length > 0) {
-        result.prefixItems = def.items.map((item: any) => zodSchemaToOpenAPISchema(item));
-        result.minItems = def.items.length;
-        result.maxItems = def.items.length;
-      }
-      break;
-      
-    case 'ZodDate':
+
     case 'date':
       result.type = 'string';
       result.format = 'date-time';
       break;
-      
-    case 'ZodBigInt':
-    case 'bigint':
-      result.type = 'integer';
-      result.format = 'int64';
+
+    case 'file':
+      result.type = 'string';
+      result.format = 'binary';
       break;
-      
-    case 'ZodNull':
+
     case 'null':
-      result.type = 'null';
-      break;
-      
-    case 'ZodUndefined':
     case 'undefined':
-      result.type = 'null';
-      break;
-      
-    case 'ZodVoid':
     case 'void':
       result.type = 'null';
       break;
-      
-    case 'ZodNever':
+
     case 'never':
       result.not = {};
       break;
-      
-    case 'ZodMap':
-    case 'map':
-      result.type = 'object';
-      result.additionalProperties = true;
-      break;
-      
-    case 'ZodSet':
-    case 'set':
-      result.type = 'array';
-      result.uniqueItems = true;
-      if (def.valueType) {
-        result.items = zodSchemaToOpenAPISchema(def.valueType);
-      }
-      break;
-      
-    case 'ZodDiscriminatedUnion':
-    case 'discriminatedUnion':
-      if (def.options) {
-        result.oneOf = Array.from(def.options.values()).map((option: any) => zodSchemaToOpenAPISchema(option));
-        if (def.discriminator) {
-          result.discriminator = { propertyName: def.discriminator };
-        }
-      }
-      break;
-      
-    case 'ZodFunction':
+
     case 'function':
       result.type = 'object';
       result.description = description || 'Function type';
       break;
-      
-    case 'ZodPromise':
-    case 'promise':
-      return zodSchemaToOpenAPISchema(def.type);
-      
-    case 'ZodAny':
+
     case 'any':
-      break;
-      
-    case 'ZodUnknown':
     case 'unknown':
+    case 'transform':
+    case 'custom':
+    case 'symbol':
       break;
-      
+
     default:
       result.type = 'string';
   }
-  
-  if (description) {
-    result.description = description;
+
+  return describe(result);
+};
+
+const convertDefinition = (schema: any, def: any, context: ConversionContext) => {
+  const result = convertType(schema, def, context);
+  const metadata = getSchemaMetadata(schema);
+  return result && Object.keys(metadata).length > 0 ? Object.assign(result, metadata) : result;
+};
+
+const toRef = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+/** Input definitions are referenced as `FooInput`; `collectComponents` merges them into `Foo` when equal. */
+const toComponentRef = (name: string, mode: ConversionMode) => toRef(mode === 'input' ? `${name}Input` : name);
+
+const convertComponent = (name: string, schema: any, def: any, context: ConversionContext) => {
+  const component = context.components.get(name) ?? {};
+  context.components.set(name, component);
+
+  // A reference back to a definition still being converted is a cycle.
+  if (component[context.mode] !== undefined || context.inProgress.has(schema)) return;
+
+  context.inProgress.add(schema);
+  component[context.mode] = convertDefinition(schema, def, context);
+  context.inProgress.delete(schema);
+};
+
+const convertSchema = (schema: any, context: ConversionContext): any => {
+  if (!schema) return undefined;
+
+  const def = getDef(schema);
+  if (!def) return { type: 'string' };
+
+  const name = getSchemaRefId(schema) ?? context.recursiveNames.get(schema);
+  if (name) {
+    convertComponent(name, schema, def, context);
+    return toComponentRef(name, context.mode);
+  }
+
+  // Reaching a schema that is still being converted means it's recursive: it becomes a
+  // component referring to itself, under a generated name as it has none of its own.
+  if (context.inProgress.has(schema)) {
+    const recursiveName = `RecursiveSchema${context.recursiveNames.size + 1}`;
+    context.recursiveNames.set(schema, recursiveName);
+    return toComponentRef(recursiveName, context.mode);
+  }
+
+  context.inProgress.add(schema);
+  const result = convertDefinition(schema, def, context);
+  context.inProgress.delete(schema);
+
+  const recursiveName = context.recursiveNames.get(schema);
+  if (recursiveName) {
+    context.components.set(recursiveName, { ...context.components.get(recursiveName), [context.mode]: result });
+    return toComponentRef(recursiveName, context.mode);
   }
-  
   return result;
 };
+
+/**
+ * Converts a Zod 3 or Zod 4 schema to an OpenAPI 3.1 schema object, describing what it accepts
+ * (`input`) or what it produces (`output`). Both versions' internals are read into the same
+ * checks, so equivalent schemas convert to the same output.
+ *
+ * Schemas named with `registerSchema` or `.openapi('Name')`, and recursive schemas, become a
+ * `$ref`; their definitions are collected in `context` (see `collectComponents`).
+ */
+export const zodSchemaToOpenAPISchema = (
+  schema: any,
+  context: ConversionContext = createConversionContext(),
+  mode: ConversionMode = context.mode
+): any => {
+  const outerMode = context.mode;
+  context.mode = mode;
+  try {
+    return convertSchema(schema, context);
+  } finally {
+    context.mode = outerMode;
+  }
+};
+
+const renameRef = (renames: Map<string, string>) => (key: string, value: unknown) => {
+  return key === '$ref' && typeof value === 'string' ? renames.get(value) ?? value : value;
+};
+
+/**
+ * Returns the component definitions collected in `context`, plus the `$ref`s to rewrite.
+ *
+ * A schema whose input and output definitions are equal is emitted once as `Foo`, with its
+ * `FooInput` references renamed; otherwise both `Foo` and `FooInput` are emitted. Definitions
+ * are compared assuming every candidate merges, so recursive schemas can merge too.
+ */
+export const collectComponents = (context: ConversionContext) => {
+  const renames = new Map<string, string>();
+  const rename = (name: string) => renames.set(toRef(`${name}Input`).$ref, toRef(name).$ref);
+
+  const candidates = new Set<string>();
+  context.components.forEach(({ input, output }, name) => {
+    if (input !== undefined && output !== undefined) candidates.add(name);
+    else if (input !== undefined) rename(name);
+  });
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const assumed = new Map(renames);
+    candidates.forEach((name) => {
+      assumed.set(toRef(`${name}Input`).$ref, toRef(name).$ref);
+    });
+
+    candidates.forEach((name) => {
+      const { input, output } = context.components.get(name)!;
+      if (JSON.stringify(input, renameRef(assumed)) !== JSON.stringify(output, renameRef(assumed))) {
+        candidates.delete(name);
+        changed = true;
+      }
+    });
+  }
+  candidates.forEach(rename);
+
+  const schemas: Record<string, any> = {};
+  context.components.forEach(({ input, output }, name) => {
+    if (output !== undefined) {
+      schemas[name] = output;
+    }
+    if (input !== undefined && !renames.has(toRef(`${name}Input`).$ref)) {
+      schemas[`${name}Input`] = input;
+    } else if (output === undefined) {
+      schemas[name] = input;
+    }
+  });
+
+  return { schemas, renames };
+};
+
+/** Rewrites the `$ref`s in a generated document, in place. */
+export const renameRefs = (value: any, renames: Map<string, string>): void => {
+  if (renames.size === 0 || !value || typeof value !== 'object') return;
+
+  if (typeof value.$ref === 'string' && renames.has(value.$ref)) {
+    value.$ref = renames.get(value.$ref);
+  }
+  Object.values(value).forEach((child) => renameRefs(child, renames));
+};
@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { RouteSchema } from './typed-router';
+import { z, ZodType } from './zod';
+import { getObjectShape } from './lib/object-shape';
+
+/**
+ * What a middleware documents on every route it runs on: the parameters it reads and the
+ * responses it may answer with. Route schemas take precedence over it.
+ */
+export type MiddlewareSchema = Pick<RouteSchema, 'headers' | 'query' | 'cookies' | 'response'>;
+
+export interface MiddlewareOptions {
+  schema?: MiddlewareSchema;
+}
+
+/** A request handler that adds `Adds` to the request of the routes it runs on. */
+export type TypedMiddleware<Adds extends object = {}> = RequestHandler & {
+  /** Type-only carrier of the added request properties; never set at runtime. */
+  readonly '~adds'?: Adds;
+};
+
+/** The request properties a list of middlewares adds, merged. */
+export type MiddlewareContext<M extends readonly unknown[]> = M extends readonly [infer Head, ...infer Rest]
+  ? (Head extends { readonly '~adds'?: infer Adds } ? (unknown extends Adds ? {} : Adds) : {}) & MiddlewareContext<Rest>
+  : {};
+
+const middlewareSchemas = new WeakMap<Function, MiddlewareSchema>();
+
+/**
+ * Declares a middleware whose added request properties (the current user, a tenant, a
+ * transaction...) are typed on the `req` of the handlers that follow it:
+ *
+ * ```typescript
+ * const withUser = defineMiddleware<{ user: User }>(async (req, res, next) => {
+ *   req.user = await findUser(req.get('authorization'));
+ *   next();
+ * });
+ * ```
+ */
+export const defineMiddleware = <Adds extends object>(
+  handler: (req: Request & Partial<Adds>, res: Response, next: NextFunction) => unknown,
+  options: MiddlewareOptions = {}
+): TypedMiddleware<Adds> => {
+  const middleware: RequestHandler = (req, res, next) => {
+    try {
+      const result = handler(req as Request & Partial<Adds>, res, next);
+      if (result instanceof Promise) {
+        result.catch(next);
+      }
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  if (options.schema) {
+    middlewareSchemas.set(middleware, options.schema);
+  }
+  return middleware;
+};
+
+const mergeObjects = (middlewareSchema: ZodType<any> | undefined, routeSchema: ZodType<any> | undefined) => {
+  if (!middlewareSchema) return routeSchema;
+  if (!routeSchema) return middlewareSchema;
+
+  const middlewareShape = getObjectShape(middlewareSchema);
+  const routeShape = getObjectShape(routeSchema);
+  return middlewareShape && routeShape ? z.object({ ...middlewareShape, ...routeShape }) : routeSchema;
+};
+
+/** The route schema as documented: with the parameters and responses of its middlewares merged in. */
+export const withMiddlewareSchemas = <T extends RouteSchema>(schema: T, middlewares: Function[]): T => {
+  return middlewares.reduce<T>((merged, middleware) => {
+    const middlewareSchema = middlewareSchemas.get(middleware);
+    if (!middlewareSchema) return merged;
+
+    const queryKey = merged.querystring && !merged.query ? 'querystring' : 'query';
+    return {
+      ...merged,
+      headers: mergeObjects(middlewareSchema.headers, merged.headers),
+      [queryKey]: mergeObjects(middlewareSchema.query, merged[queryKey]),
+      cookies: mergeObjects(middlewareSchema.cookies, merged.cookies),
+      ...((middlewareSchema.response || merged.response) && {
+        response: { ...middlewareSchema.response, ...merged.response },
+      }),
+    };
+  }, schema);
+};
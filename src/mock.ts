@@ -0,0 +1,121 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { RouteSchema, ResponseEntry } from './typed-router';
+import { ZodType } from './zod';
+import { getDefaultResponses } from './config';
+import { isContentSchemas, selectContentExamples } from './lib/media-types';
+import { toResponseDefinition } from './lib/response-definition';
+import { collectComponents, createConversionContext, zodSchemaToOpenAPISchema } from './lib/zod-to-openapi-schema';
+import { generateMockValue } from './lib/mock-data';
+import { reviveDates } from './lib/revive-dates';
+
+export interface MockOptions {
+  /** Request header naming the declared status to answer with. Defaults to `x-mock-status`. */
+  statusHeader?: string;
+  /** Query parameter naming the declared status to answer with. Defaults to `__status`. */
+  statusQueryParam?: string;
+  /** Request header naming the response example to answer with. Defaults to `x-mock-example`. */
+  exampleHeader?: string;
+}
+
+const mockValues = new WeakMap<ZodType<any>, unknown>();
+
+/** Generates a value from the output JSON schema of a Zod schema, once per schema. */
+const mockValue = (schema: ZodType<any>) => {
+  if (!mockValues.has(schema)) {
+    const context = createConversionContext();
+    const jsonSchema = zodSchemaToOpenAPISchema(schema, context, 'output');
+    const value = generateMockValue(jsonSchema, collectComponents(context).schemas);
+    mockValues.set(schema, reviveDates(schema, value));
+  }
+  return mockValues.get(schema);
+};
+
+/** The lowest declared 2xx status, or the lowest declared status. */
+const defaultStatus = (statuses: number[]) => {
+  const sorted = [...statuses].sort((a, b) => a - b);
+  return sorted.find((status) => status >= 200 && status < 300) ?? sorted[0];
+};
+
+const requestedStatus = (req: Request, options: Required<MockOptions>) => {
+  const header = req.get(options.statusHeader);
+  if (header) return header;
+
+  // `req.query` only holds the keys of the query schema once validated, so read the raw URL.
+  const url = new URL(req.originalUrl, 'http://localhost');
+  return url.searchParams.get(options.statusQueryParam) ?? undefined;
+};
+
+const sendMock = (entry: ResponseEntry, req: Request, res: Response, next: NextFunction, options: Required<MockOptions>) => {
+  const { body, headers, examples: bodyExamples } = toResponseDefinition(entry);
+
+  if (headers) {
+    const values = mockValue(headers) as Record<string, unknown> | null;
+    Object.entries(values ?? {}).forEach(([name, value]) => {
+      res.set(name, String(value));
+    });
+  }
+
+  if (!body) {
+    res.end();
+    return;
+  }
+
+  const content = isContentSchemas(body) ? body : { 'application/json': body };
+  const mediaTypes = Object.keys(content);
+  const mediaType = req.accepts(mediaTypes) || mediaTypes[0];
+  const examples = selectContentExamples(bodyExamples, mediaTypes, mediaType);
+
+  const exampleName = req.get(options.exampleHeader);
+  if (exampleName && !examples?.[exampleName]) {
+    next(new Error(`No response example named "${exampleName}" for ${req.method} ${req.originalUrl}`));
+    return;
+  }
+
+  const example = exampleName ? examples?.[exampleName] : Object.values(examples ?? {})[0];
+  const value = example ? example.value : mockValue(content[mediaType]);
+
+  res.type(mediaType);
+  if (mediaType.includes('json')) {
+    res.json(value);
+  } else {
+    res.send(typeof value === 'string' ? value : JSON.stringify(value));
+  }
+};
+
+/**
+ * Creates a handler that answers with data generated from the route's response schemas instead
+ * of running the route handler. Request validation runs before it as usual.
+ *
+ * The status comes from the `x-mock-status` header or `__status` query parameter and must be one
+ * the route declares; without it the lowest declared 2xx status is used. Response examples take
+ * precedence over generated data and can be picked by name with the `x-mock-example` header.
+ */
+export const createMockHandler = (schema: RouteSchema, options: MockOptions = {}): RequestHandler => {
+  const resolvedOptions: Required<MockOptions> = {
+    statusHeader: 'x-mock-status',
+    statusQueryParam: '__status',
+    exampleHeader: 'x-mock-example',
+    ...options,
+  };
+
+  return (req, res, next) => {
+    const responses: Record<number, ResponseEntry> = { ...getDefaultResponses(), ...schema.response };
+    const statuses = Object.keys(responses).map(Number);
+    if (statuses.length === 0) {
+      res.status(200).end();
+      return;
+    }
+
+    const requested = requestedStatus(req, resolvedOptions);
+    const status = requested !== undefined ? Number(requested) : defaultStatus(statuses);
+    if (!responses[status]) {
+      next(new Error(
+        `Mock status ${requested} is not declared for ${req.method} ${req.originalUrl} (declared: ${statuses.join(', ')})`
+      ));
+      return;
+    }
+
+    res.status(status);
+    sendMock(responses[status], req, res, next, resolvedOptions);
+  };
+};
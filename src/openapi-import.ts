@@ -0,0 +1,478 @@
+export interface ImportOptions {
+  /** Module the generated code imports from. Defaults to `express-zod-openapi-typed`. */
+  importFrom?: string;
+  /** Name of the exported router. Defaults to `router`. */
+  routerName?: string;
+}
+
+type JsonSchema = Record<string, any>;
+
+interface ImportContext {
+  document: any;
+  /** Identifiers of the component schemas, by component name. */
+  identifiers: Map<string, string>;
+  /** Identifiers of the cycle being declared, referenced through `z.lazy`. */
+  lazy: Set<string>;
+  /** What could not be imported, listed at the top of the generated file. */
+  skipped: string[];
+}
+
+const routerMethods = ['get', 'post', 'put', 'delete', 'patch'];
+
+const indentUnit = '  ';
+
+const isIdentifier = (value: string) => /^[A-Za-z_$][\w$]*$/.test(value);
+
+const toKey = (value: string) => (isIdentifier(value) || /^\d+$/.test(value) ? value : JSON.stringify(value));
+
+const toIdentifier = (name: string) => {
+  const identifier = name.replace(/[^\w$]+(.)?/g, (_, next?: string) => (next ?? '').toUpperCase());
+  return /^\d/.test(identifier) ? `_${identifier}` : identifier;
+};
+
+/** Prints a JSON value as TypeScript, with unquoted keys where possible. */
+const toLiteral = (value: unknown, indent: string): string => {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    const inner = indent + indentUnit;
+    return `[\n${value.map((item) => `${inner}${toLiteral(item, inner)},`).join('\n')}\n${indent}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (entries.length === 0) return '{}';
+    const inner = indent + indentUnit;
+    return `{\n${entries.map(([key, item]) => `${inner}${toKey(key)}: ${toLiteral(item, inner)},`).join('\n')}\n${indent}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/** Prints `{ key: value }` entries whose values are already source code. */
+const toObjectSource = (entries: Array<[string, string]>, indent: string) => {
+  if (entries.length === 0) return '{}';
+  const inner = indent + indentUnit;
+  return `{\n${entries.map(([key, value]) => `${inner}${toKey(key)}: ${value},`).join('\n')}\n${indent}}`;
+};
+
+const resolve = (context: ImportContext, value: any): any => {
+  if (!value?.$ref) return value;
+  const path = value.$ref.replace(/^#\//, '').split('/');
+  return resolve(context, path.reduce((current: any, key: string) => current?.[key], context.document));
+};
+
+const componentName = (ref: string) => {
+  const match = /^#\/components\/schemas\/(.+)$/.exec(ref);
+  return match ? match[1] : undefined;
+};
+
+const stringFormats: Record<string, string> = {
+  email: '.email()',
+  uri: '.url()',
+  url: '.url()',
+  uuid: '.uuid()',
+  'date-time': '.datetime()',
+  date: '.date()',
+  time: '.time()',
+  duration: '.duration()',
+  byte: '.base64()',
+  cuid: '.cuid()',
+  cuid2: '.cuid2()',
+  ulid: '.ulid()',
+  nanoid: '.nanoid()',
+  emoji: '.emoji()',
+};
+
+/** A regular expression literal, or a `RegExp` for patterns JavaScript does not parse. */
+const toRegExp = (pattern: string) => {
+  try {
+    return `/${new RegExp(pattern).source}/`;
+  } catch {
+    return `new RegExp(${JSON.stringify(pattern)})`;
+  }
+};
+
+const toStringSchema = (schema: JsonSchema) => {
+  let source = 'z.string()';
+  if (schema.format && stringFormats[schema.format]) source += stringFormats[schema.format];
+  if (schema.minLength !== undefined) source += `.min(${schema.minLength})`;
+  if (schema.maxLength !== undefined) source += `.max(${schema.maxLength})`;
+  if (schema.pattern) source += `.regex(${toRegExp(schema.pattern)})`;
+  return source;
+};
+
+const toNumberSchema = (schema: JsonSchema, integer: boolean) => {
+  let source = integer ? 'z.number().int()' : 'z.number()';
+  // OpenAPI 3.0 marks exclusive bounds with booleans next to `minimum`/`maximum`.
+  if (schema.exclusiveMinimum === true) source += `.gt(${schema.minimum})`;
+  else if (schema.minimum !== undefined) source += `.min(${schema.minimum})`;
+  if (typeof schema.exclusiveMinimum === 'number') source += `.gt(${schema.exclusiveMinimum})`;
+  if (schema.exclusiveMaximum === true) source += `.lt(${schema.maximum})`;
+  else if (schema.maximum !== undefined) source += `.max(${schema.maximum})`;
+  if (typeof schema.exclusiveMaximum === 'number') source += `.lt(${schema.exclusiveMaximum})`;
+  if (schema.multipleOf !== undefined) source += `.multipleOf(${schema.multipleOf})`;
+  return source;
+};
+
+const toEnumSchema = (values: unknown[]) => {
+  if (values.length === 1) return `z.literal(${JSON.stringify(values[0])})`;
+  if (values.every((value) => typeof value === 'string')) return `z.enum([${values.map((value) => JSON.stringify(value)).join(', ')}])`;
+  return `z.union([${values.map((value) => `z.literal(${JSON.stringify(value)})`).join(', ')}])`;
+};
+
+const toObjectSchema = (schema: JsonSchema, context: ImportContext, indent: string) => {
+  const required: string[] = schema.required ?? [];
+  const properties = Object.entries<JsonSchema>(schema.properties ?? {});
+  const additional = schema.additionalProperties;
+
+  if (properties.length === 0 && additional && typeof additional === 'object') {
+    return `z.record(z.string(), ${toZod(additional, context, indent)})`;
+  }
+
+  const shape = toObjectSource(properties.map(([key, property]) => {
+    const value = toZod(property, context, indent + indentUnit);
+    const optional = !required.includes(key) && resolve(context, property)?.default === undefined;
+    return [key, optional ? `${value}.optional()` : value];
+  }), indent);
+
+  if (additional === false) return `z.object(${shape}).strict()`;
+  if (additional && typeof additional === 'object') return `z.object(${shape}).catchall(${toZod(additional, context, indent)})`;
+  return `z.object(${shape})`;
+};
+
+const toArraySchema = (schema: JsonSchema, context: ImportContext, indent: string) => {
+  if (Array.isArray(schema.prefixItems)) {
+    const items = schema.prefixItems.map((item: JsonSchema) => toZod(item, context, indent)).join(', ');
+    return `z.tuple([${items}])`;
+  }
+
+  let source = `z.array(${toZod(schema.items ?? {}, context, indent)})`;
+  if (schema.minItems !== undefined) source += `.min(${schema.minItems})`;
+  if (schema.maxItems !== undefined) source += `.max(${schema.maxItems})`;
+  return source;
+};
+
+const toUnionSchema = (options: JsonSchema[], schema: JsonSchema, context: ImportContext, indent: string) => {
+  const inner = indent + indentUnit;
+  const sources = options.map((option) => toZod(option, context, inner));
+  const members = sources.map((source) => `${inner}${source},`).join('\n');
+  // Discriminated unions read their members' discriminators upfront, which lazy members have not.
+  const property = sources.some((source) => source.startsWith('z.lazy(')) ? undefined : schema.discriminator?.propertyName;
+  return property
+    ? `z.discriminatedUnion(${JSON.stringify(property)}, [\n${members}\n${indent}])`
+    : `z.union([\n${members}\n${indent}])`;
+};
+
+const toTypeSchema = (schema: JsonSchema, type: string | undefined, context: ImportContext, indent: string) => {
+  switch (type ?? (schema.properties || schema.additionalProperties ? 'object' : schema.items || schema.prefixItems ? 'array' : undefined)) {
+    case 'string':
+      return toStringSchema(schema);
+    case 'integer':
+      return toNumberSchema(schema, true);
+    case 'number':
+      return toNumberSchema(schema, false);
+    case 'boolean':
+      return 'z.boolean()';
+    case 'null':
+      return 'z.null()';
+    case 'array':
+      return toArraySchema(schema, context, indent);
+    case 'object':
+      return toObjectSchema(schema, context, indent);
+    default:
+      return 'z.unknown()';
+  }
+};
+
+/** Prints the Zod schema matching a JSON schema of an OpenAPI 3.0 or 3.1 document. */
+const toZod = (schema: JsonSchema, context: ImportContext, indent: string): string => {
+  if (schema?.$ref) {
+    const name = componentName(schema.$ref);
+    const identifier = name && context.identifiers.get(name);
+    if (identifier) return context.lazy.has(identifier) ? `z.lazy(() => ${identifier})` : identifier;
+    return toZod(resolve(context, schema), context, indent);
+  }
+  if (!schema || Object.keys(schema).length === 0) return 'z.unknown()';
+
+  const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const unionOptions: JsonSchema[] = schema.oneOf ?? schema.anyOf ?? [];
+  let nullable = schema.nullable === true || types.includes('null') || unionOptions.some((option) => option.type === 'null');
+  const nonNullTypes = types.filter((type) => type !== 'null');
+
+  let source: string;
+  const options = unionOptions.filter((option) => option.type !== 'null');
+  if (options.length > 0) {
+    source = options.length === 1 ? toZod(options[0], context, indent) : toUnionSchema(options, schema, context, indent);
+  } else if (Array.isArray(schema.allOf)) {
+    source = schema.allOf
+      .map((part: JsonSchema) => toZod(part, context, indent))
+      .reduce((left: string, right: string) => `z.intersection(${left}, ${right})`);
+  } else if (schema.const !== undefined) {
+    source = toEnumSchema([schema.const]);
+  } else if (Array.isArray(schema.enum)) {
+    const values = schema.enum.filter((value: unknown) => value !== null);
+    nullable = nullable || values.length < schema.enum.length;
+    source = toEnumSchema(values);
+  } else if (nonNullTypes.length > 1) {
+    source = `z.union([${nonNullTypes.map((type) => toTypeSchema(schema, type, context, indent)).join(', ')}])`;
+  } else if (types.length === 1 && types[0] === 'null') {
+    return 'z.null()';
+  } else {
+    source = toTypeSchema(schema, nonNullTypes[0], context, indent);
+  }
+
+  if (nullable) source += '.nullable()';
+  if (schema.description) source += `.describe(${JSON.stringify(schema.description)})`;
+  if (schema.default !== undefined) source += `.default(${JSON.stringify(schema.default)})`;
+  return source;
+};
+
+/** Component names grouped in cycles, each group after the groups it references (Tarjan). */
+const orderComponents = (schemas: Record<string, JsonSchema>, canonicalNames: Map<string, string>) => {
+  const references = (value: unknown, found: Set<string>): Set<string> => {
+    if (Array.isArray(value)) {
+      value.forEach((item) => references(item, found));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([key, item]) => {
+        const name = key === '$ref' && typeof item === 'string' ? componentName(item) : undefined;
+        const canonicalName = name && (canonicalNames.get(name) ?? name);
+        if (canonicalName && canonicalName in schemas) found.add(canonicalName);
+        else references(item, found);
+      });
+    }
+    return found;
+  };
+
+  const edges = new Map(Object.keys(schemas).map((name) => [name, [...references(schemas[name], new Set())]]));
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const groups: Array<{ names: string[]; cyclic: boolean }> = [];
+
+  const visit = (name: string) => {
+    indexes.set(name, indexes.size);
+    lowLinks.set(name, indexes.get(name)!);
+    stack.push(name);
+
+    edges.get(name)!.forEach((next) => {
+      if (!indexes.has(next)) {
+        visit(next);
+        lowLinks.set(name, Math.min(lowLinks.get(name)!, lowLinks.get(next)!));
+      } else if (stack.includes(next)) {
+        lowLinks.set(name, Math.min(lowLinks.get(name)!, indexes.get(next)!));
+      }
+    });
+
+    if (lowLinks.get(name) === indexes.get(name)) {
+      const names: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        names.unshift(member);
+      } while (member !== name);
+      groups.push({ names, cyclic: names.length > 1 || edges.get(name)!.includes(name) });
+    }
+  };
+
+  Object.keys(schemas).forEach((name) => {
+    if (!indexes.has(name)) visit(name);
+  });
+  return groups;
+};
+
+const toPath = (path: string, context: ImportContext) => {
+  return path.replace(/\{([^}]+)\}/g, (_, name: string) => {
+    if (!isIdentifier(name)) {
+      context.skipped.push(`Path parameter "${name}" of ${path} was renamed to "${toIdentifier(name)}".`);
+    }
+    return `:${toIdentifier(name)}`;
+  });
+};
+
+const parameterSegments: Record<string, string> = {
+  path: 'params',
+  query: 'query',
+  header: 'headers',
+  cookie: 'cookies',
+};
+
+/** Whether a parameter schema is something else than a string, which needs coercion. */
+const needsCoercion = (schema: JsonSchema | undefined, context: ImportContext): boolean => {
+  const resolved = resolve(context, schema) ?? {};
+  const types: string[] = Array.isArray(resolved.type) ? resolved.type : resolved.type ? [resolved.type] : [];
+  return types.some((type) => type !== 'string' && type !== 'null');
+};
+
+const toContentSource = (content: Record<string, any>, context: ImportContext, indent: string) => {
+  const mediaTypes = Object.keys(content);
+  if (mediaTypes.length === 1 && mediaTypes[0] === 'application/json') {
+    return toZod(content['application/json'].schema ?? {}, context, indent);
+  }
+  return toObjectSource(mediaTypes.map((mediaType) => {
+    return [mediaType, toZod(content[mediaType].schema ?? {}, context, indent + indentUnit)];
+  }), indent);
+};
+
+const toResponsesSource = (operation: any, route: string, context: ImportContext, indent: string) => {
+  const inner = indent + indentUnit;
+  const entries: Array<[string, string]> = [];
+
+  Object.entries<any>(operation.responses ?? {}).forEach(([status, value]) => {
+    if (!/^\d{3}$/.test(status)) {
+      context.skipped.push(`Response "${status}" of ${route}: only numeric statuses can be declared.`);
+      return;
+    }
+
+    const response = resolve(context, value) ?? {};
+    const body = response.content && Object.keys(response.content).length > 0
+      ? toContentSource(response.content, context, inner + indentUnit)
+      : undefined;
+    const headers = Object.entries<any>(response.headers ?? {}).map(([name, header]): [string, string] => {
+      const resolved = resolve(context, header);
+      const schema = toZod({ ...resolved.schema, description: resolved.description ?? resolved.schema?.description }, context, inner + indentUnit + indentUnit);
+      return [name.toLowerCase(), resolved.required ? schema : `${schema}.optional()`];
+    });
+    const description = response.description !== `Response ${status}` ? response.description : undefined;
+
+    if (body && headers.length === 0 && !description) {
+      entries.push([status, toContentSource(response.content, context, inner)]);
+      return;
+    }
+
+    const definition: Array<[string, string]> = [];
+    if (body) definition.push(['body', body]);
+    if (headers.length > 0) definition.push(['headers', `z.object(${toObjectSource(headers, inner + indentUnit)})`]);
+    if (description) definition.push(['description', JSON.stringify(description)]);
+    entries.push([status, toObjectSource(definition, inner)]);
+  });
+
+  return toObjectSource(entries, indent);
+};
+
+const toRouteSource = (path: string, method: string, pathItem: any, operation: any, context: ImportContext, routerName: string) => {
+  const route = `${method.toUpperCase()} ${path}`;
+  const indent = indentUnit + indentUnit;
+  const schema: Array<[string, string]> = [];
+
+  const parameters = [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]
+    .map((parameter) => resolve(context, parameter))
+    .filter((parameter, index, all) => {
+      // Operation parameters override path item parameters of the same name and location.
+      return !all.slice(index + 1).some((other) => other.name === parameter.name && other.in === parameter.in);
+    });
+
+  let coerce = false;
+  ['path', 'query', 'header', 'cookie'].forEach((location) => {
+    const group = parameters.filter((parameter) => parameter.in === location);
+    if (group.length === 0) return;
+
+    const shape = group.map((parameter): [string, string] => {
+      coerce = coerce || needsCoercion(parameter.schema, context);
+      const name = location === 'header' ? parameter.name.toLowerCase() : location === 'path' ? toIdentifier(parameter.name) : parameter.name;
+      const description = parameter.description ?? resolve(context, parameter.schema)?.description;
+      const value = toZod({ ...(parameter.schema ?? {}), ...(description && { description }) }, context, indent + indentUnit);
+      return [name, parameter.required || location === 'path' ? value : `${value}.optional()`];
+    });
+    schema.push([parameterSegments[location], `z.object(${toObjectSource(shape, indent)})`]);
+  });
+
+  const requestBody = resolve(context, operation.requestBody);
+  if (requestBody?.content && Object.keys(requestBody.content).length > 0) {
+    schema.push(['body', toContentSource(requestBody.content, context, indent)]);
+  }
+
+  // Routes without responses are documented with this one; it needs no declaration.
+  const responses = operation.responses ?? {};
+  const implicitResponse = Object.keys(responses).length === 1
+    && JSON.stringify(responses['200']) === JSON.stringify({ description: 'Successful response' });
+  if (!implicitResponse) {
+    schema.push(['response', toResponsesSource(operation, route, context, indent)]);
+  }
+
+  (['summary', 'description', 'tags', 'operationId', 'deprecated', 'security', 'externalDocs'] as const).forEach((key) => {
+    if (operation[key] !== undefined) schema.push([key, toLiteral(operation[key], indent)]);
+  });
+
+  const options: Array<[string, string]> = [['schema', toObjectSource(schema, indentUnit)]];
+  if (coerce) options.push(['coerce', 'true']);
+
+  return [
+    `${routerName}.${method}(${JSON.stringify(toPath(path, context))}, ${toObjectSource(options, '')}, (req, res) => {`,
+    `${indentUnit}throw new Error(${JSON.stringify(`Not implemented: ${operation.operationId ?? route}`)});`,
+    '});',
+  ].join('\n');
+};
+
+/**
+ * Generates TypeScript source for an OpenAPI 3.0 or 3.1 document: a Zod schema registered under
+ * its name for each component schema, an `openAPIConfig` with the document's info, servers, tags
+ * and security, and a typed router with a stub handler for each operation.
+ *
+ * `generateOpenAPISpec(openAPIConfig, router)` gives back an equivalent document. What has no
+ * equivalent (`default` responses, methods other than GET/POST/PUT/DELETE/PATCH) is listed in a
+ * comment at the top of the file.
+ */
+export const generateRoutesFromOpenAPI = (document: any, options: ImportOptions = {}): string => {
+  const importFrom = options.importFrom ?? 'express-zod-openapi-typed';
+  const routerName = options.routerName ?? 'router';
+  const components: Record<string, JsonSchema> = document?.components?.schemas ?? {};
+
+  // A schema whose input differs from its output is documented twice, as `Foo` and `FooInput`.
+  // The input definition keeps the defaults and optional fields, so it becomes the one `Foo`.
+  const schemas: Record<string, JsonSchema> = { ...components };
+  const canonicalNames = new Map<string, string>();
+  Object.keys(components).forEach((name) => {
+    const outputName = name.replace(/Input$/, '');
+    if (outputName !== name && components[outputName]) {
+      schemas[outputName] = components[name];
+      delete schemas[name];
+      canonicalNames.set(name, outputName);
+    }
+  });
+
+  const identifiers = new Map(Object.keys(components).map((name) => {
+    return [name, `${toIdentifier(canonicalNames.get(name) ?? name)}Schema`];
+  }));
+  const context: ImportContext = { document, identifiers, lazy: new Set(), skipped: [] };
+
+  const declarations = orderComponents(schemas, canonicalNames).flatMap(({ names, cyclic }) => {
+    context.lazy = cyclic ? new Set(names.map((name) => identifiers.get(name)!)) : new Set();
+    return names.map((name) => {
+      const identifier = context.identifiers.get(name)!;
+      // Schemas referenced in their own initializer need an explicit type.
+      const type = cyclic ? ': z.ZodType<any>' : '';
+      return `export const ${identifier}${type} = registerSchema(${JSON.stringify(name)}, ${toZod(schemas[name], context, '')});`;
+    });
+  });
+  context.lazy = new Set();
+
+  const routes: string[] = [];
+  Object.entries<any>(document?.paths ?? {}).forEach(([path, pathItem]) => {
+    Object.keys(pathItem).filter((key) => !['parameters', 'summary', 'description', 'servers', '$ref'].includes(key)).forEach((method) => {
+      if (!routerMethods.includes(method)) {
+        context.skipped.push(`${method.toUpperCase()} ${path}: the router has no ${method} method.`);
+        return;
+      }
+      routes.push(toRouteSource(path, method, pathItem, pathItem[method], context, routerName));
+    });
+  });
+
+  const config: Record<string, unknown> = {
+    info: document?.info,
+    servers: document?.servers,
+    tags: document?.tags,
+    externalDocs: document?.externalDocs,
+    security: document?.security,
+    ...(document?.components?.securitySchemes && { components: { securitySchemes: document.components.securitySchemes } }),
+  };
+
+  return [
+    ...(context.skipped.length > 0 ? [`// Not imported:\n${context.skipped.map((item) => `// - ${item}`).join('\n')}`] : []),
+    [
+      `import { ${declarations.length > 0 ? 'CreateTypedRouter, registerSchema, z' : 'CreateTypedRouter, z'} } from ${JSON.stringify(importFrom)};`,
+      `import type { OpenAPIConfig } from ${JSON.stringify(importFrom)};`,
+    ].join('\n'),
+    ...declarations,
+    `export const openAPIConfig: OpenAPIConfig = ${toLiteral(config, '')};`,
+    `export const ${routerName} = CreateTypedRouter();`,
+    ...routes,
+  ].join('\n\n') + '\n';
+};
@@ -0,0 +1,161 @@
+import { Router, Request } from 'express';
+import path from 'path';
+import { stringify } from 'yaml';
+import { generateOpenAPISpec, OpenAPIConfig } from './swagger';
+import { RouteSource } from './typed-router';
+
+export type OpenAPIUi = 'swagger-ui' | 'redoc';
+
+export interface ServeOpenAPIOptions {
+  config: OpenAPIConfig;
+  /** Router or app to document. Defaults to the app the middleware is mounted on. */
+  source?: RouteSource;
+  basePath?: string;
+  /** Path of the HTML documentation page. Defaults to `/docs`. */
+  uiPath?: string;
+  /**
+   * Defaults to `swagger-ui` when `swagger-ui-dist` is installed, or else to `false`, which serves
+   * the raw documents only.
+   */
+  ui?: OpenAPIUi | false;
+  jsonPath?: string;
+  yamlPath?: string;
+}
+
+interface UiAssets {
+  directory: string;
+  files: string[];
+  page: (title: string, specUrl: string, assetsUrl: string) => string;
+}
+
+const escapeHtml = (value: string) => {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+};
+
+const isInstalled = (packageName: string) => {
+  try {
+    require.resolve(`${packageName}/package.json`);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const resolvePackageDirectory = (packageName: string) => {
+  try {
+    return path.dirname(require.resolve(`${packageName}/package.json`));
+  } catch {
+    throw new Error(
+      `[express-zod-openapi] serveOpenAPI needs "${packageName}" to serve the documentation UI. ` +
+      `Install it with \`npm install ${packageName}\`, or pass \`ui: false\`.`
+    );
+  }
+};
+
+const uiAssets: Record<OpenAPIUi, () => UiAssets> = {
+  'swagger-ui': () => ({
+    directory: resolvePackageDirectory('swagger-ui-dist'),
+    files: ['swagger-ui.css', 'swagger-ui-bundle.js', 'swagger-ui-standalone-preset.js', 'favicon-32x32.png'],
+    page: (title, specUrl, assetsUrl) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(title)}</title>
+  <link rel="stylesheet" href="${assetsUrl}/swagger-ui.css" />
+  <link rel="icon" type="image/png" href="${assetsUrl}/favicon-32x32.png" />
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="${assetsUrl}/swagger-ui-bundle.js"></script>
+  <script src="${assetsUrl}/swagger-ui-standalone-preset.js"></script>
+  <script>
+    window.ui = SwaggerUIBundle({
+      url: ${JSON.stringify(specUrl)},
+      dom_id: '#swagger-ui',
+      presets: [SwaggerUIBundle.presets.apis, SwaggerUIStandalonePreset],
+      layout: 'StandaloneLayout',
+    });
+  </script>
+</body>
+</html>`,
+  }),
+  redoc: () => ({
+    directory: path.join(resolvePackageDirectory('redoc'), 'bundles'),
+    files: ['redoc.standalone.js'],
+    page: (title, specUrl, assetsUrl) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(title)}</title>
+</head>
+<body>
+  <redoc spec-url="${escapeHtml(specUrl)}"></redoc>
+  <script src="${assetsUrl}/redoc.standalone.js"></script>
+</body>
+</html>`,
+  }),
+};
+
+/**
+ * Serves the generated OpenAPI document as JSON and YAML, plus an HTML documentation page
+ * whose assets are served from the locally installed UI package.
+ *
+ * The document is generated on the first request and cached, so routes registered after
+ * the middleware is created are still included.
+ */
+export const serveOpenAPI = (options: ServeOpenAPIOptions) => {
+  const {
+    config,
+    source,
+    basePath = '',
+    uiPath = '/docs',
+    ui = isInstalled('swagger-ui-dist') ? 'swagger-ui' : false,
+    jsonPath = '/openapi.json',
+    yamlPath = '/openapi.yaml',
+  } = options;
+
+  const router = Router();
+  const assets = ui ? uiAssets[ui]() : undefined;
+
+  let cachedSpec: any;
+  let cachedYaml: string | undefined;
+
+  const getSpec = (req: Request) => {
+    if (!cachedSpec) {
+      cachedSpec = generateOpenAPISpec(config, source ?? req.app, basePath);
+    }
+    return cachedSpec;
+  };
+
+  router.get(jsonPath, (req, res) => {
+    res.json(getSpec(req));
+  });
+
+  router.get(yamlPath, (req, res) => {
+    if (cachedYaml === undefined) {
+      cachedYaml = stringify(getSpec(req), { aliasDuplicateObjects: false });
+    }
+    res.type('application/yaml').send(cachedYaml);
+  });
+
+  if (assets) {
+    const assetsPath = `${uiPath.replace(/\/+$/, '')}/assets`;
+
+    router.get(uiPath, (req, res) => {
+      const specUrl = `${req.baseUrl}${jsonPath}`;
+      res.type('html').send(assets.page(config.info.title, specUrl, `${req.baseUrl}${assetsPath}`));
+    });
+
+    router.get(`${assetsPath}/:file`, (req, res, next) => {
+      const file = req.params.file;
+      if (!assets.files.includes(file)) {
+        return next();
+      }
+      res.sendFile(path.join(assets.directory, file));
+    });
+  }
+
+  return router;
+};
@@ -0,0 +1,434 @@
+export type ChangeSeverity = 'breaking' | 'non-breaking';
+
+export type ChangeKind =
+  | 'operation-removed'
+  | 'operation-added'
+  | 'operation-deprecated'
+  | 'parameter-removed'
+  | 'parameter-added'
+  | 'parameter-required'
+  | 'parameter-optional'
+  | 'request-body-removed'
+  | 'request-body-added'
+  | 'request-body-required'
+  | 'request-body-optional'
+  | 'media-type-removed'
+  | 'media-type-added'
+  | 'response-removed'
+  | 'response-added'
+  | 'header-removed'
+  | 'header-added'
+  | 'property-removed'
+  | 'property-added'
+  | 'property-required'
+  | 'property-optional'
+  | 'type-changed'
+  | 'enum-changed'
+  | 'constraint-changed';
+
+export interface SpecChange {
+  severity: ChangeSeverity;
+  kind: ChangeKind;
+  /** `METHOD /path` of the operation the change belongs to. */
+  operation: string;
+  /** Where in the operation: `query parameter page`, `response 200 application/json: user.name`... */
+  location?: string;
+  message: string;
+}
+
+export interface SpecDiff {
+  changes: SpecChange[];
+  breaking: SpecChange[];
+  nonBreaking: SpecChange[];
+  hasBreakingChanges: boolean;
+}
+
+type JsonSchema = Record<string, any>;
+
+/** Requests break clients when schemas narrow, responses when they widen. */
+type Direction = 'request' | 'response';
+
+interface DiffContext {
+  before: any;
+  after: any;
+  operation: string;
+  changes: SpecChange[];
+  /** Pairs of `$ref`s being compared, to stop recursive schemas. */
+  comparing: Set<string>;
+}
+
+const httpMethods = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+const minimumKeys = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties'];
+const maximumKeys = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties'];
+const exactKeys = ['format', 'pattern', 'multipleOf', 'uniqueItems'];
+
+const report = (
+  context: DiffContext,
+  severity: ChangeSeverity,
+  kind: ChangeKind,
+  location: string | undefined,
+  message: string
+) => {
+  context.changes.push({ severity, kind, operation: context.operation, location, message });
+};
+
+/** `breaking` when narrowing a request or widening a response. */
+const severityOf = (direction: Direction, narrows: boolean): ChangeSeverity => {
+  return (direction === 'request') === narrows ? 'breaking' : 'non-breaking';
+};
+
+const resolve = (document: any, value: any): any => {
+  if (!value?.$ref) return value;
+  const path = value.$ref.replace(/^#\//, '').split('/');
+  return resolve(document, path.reduce((current: any, key: string) => current?.[key], document));
+};
+
+/**
+ * The schema a nullable wrapper stands for: `anyOf` / `oneOf` with a single member besides
+ * `null`, or a lone `allOf` member as OpenAPI 3.0 wraps `$ref`s, with whether it takes `null`.
+ */
+const unwrap = (document: any, value: JsonSchema): { schema: JsonSchema; ref?: string; nullable: boolean } => {
+  const schema = resolve(document, value) ?? {};
+  const nullable = schema.nullable === true;
+  const options: JsonSchema[] | undefined = schema.anyOf ?? schema.oneOf;
+  const members = options?.filter((option) => option.type !== 'null');
+  const wrapped = members?.length === 1 ? members[0] : schema.allOf?.length === 1 && !schema.type && !schema.properties ? schema.allOf[0] : undefined;
+  if (!wrapped) return { schema, ref: value.$ref, nullable };
+
+  const inner = unwrap(document, wrapped);
+  return { ...inner, nullable: inner.nullable || nullable || members?.length !== options?.length };
+};
+
+const membersOf = (schema: JsonSchema): JsonSchema[] => {
+  return (schema.anyOf ?? schema.oneOf ?? []).filter((option: JsonSchema) => option.type !== 'null');
+};
+
+/** The types a schema accepts, with those of its union members unless they're compared one by one. */
+const typesOf = (document: any, schema: JsonSchema, nullable: boolean, withMembers: boolean): string[] => {
+  const types = new Set<string>(Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []);
+  if (nullable || (schema.anyOf ?? schema.oneOf ?? []).some((option: JsonSchema) => option.type === 'null')) types.add('null');
+  if (withMembers) {
+    membersOf(schema).forEach((member) => {
+      typesOf(document, resolve(document, member) ?? {}, false, true).forEach((type) => types.add(type));
+    });
+  }
+  return [...types];
+};
+
+const memberKey = (document: any, member: JsonSchema) => member.$ref ?? JSON.stringify(resolve(document, member));
+
+const enumOf = (schema: JsonSchema): unknown[] | undefined => {
+  if (Array.isArray(schema.enum)) return schema.enum;
+  return schema.const !== undefined ? [schema.const] : undefined;
+};
+
+const describe = (location: string, path: string) => (path ? `${location}: ${path}` : location);
+
+const describeValues = (values: unknown[]) => values.map((value) => JSON.stringify(value)).join(', ');
+
+const compareConstraints = (before: JsonSchema, after: JsonSchema, direction: Direction, location: string, context: DiffContext) => {
+  const compare = (key: string, narrows: (from: any, to: any) => boolean) => {
+    const from = before[key];
+    const to = after[key];
+    if (from === to || (from === undefined && to === undefined)) return;
+
+    const message = from === undefined
+      ? `${key} ${JSON.stringify(to)} was added`
+      : to === undefined ? `${key} ${JSON.stringify(from)} was removed` : `${key} changed from ${JSON.stringify(from)} to ${JSON.stringify(to)}`;
+    report(context, severityOf(direction, narrows(from, to)), 'constraint-changed', location, message);
+  };
+
+  minimumKeys.forEach((key) => compare(key, (from, to) => to !== undefined && (from === undefined || to > from)));
+  maximumKeys.forEach((key) => compare(key, (from, to) => to !== undefined && (from === undefined || to < from)));
+  exactKeys.forEach((key) => {
+    if (before[key] !== undefined && after[key] !== undefined && before[key] !== after[key]) {
+      // A different format or pattern accepts other values: no client is safe either way.
+      report(context, 'breaking', 'constraint-changed', location, `${key} changed from ${JSON.stringify(before[key])} to ${JSON.stringify(after[key])}`);
+    } else {
+      compare(key, (from, to) => from === undefined && to !== undefined);
+    }
+  });
+};
+
+const compareSchemas = (
+  beforeSchema: JsonSchema | undefined,
+  afterSchema: JsonSchema | undefined,
+  direction: Direction,
+  location: string,
+  path: string,
+  context: DiffContext
+): void => {
+  if (!beforeSchema || !afterSchema) return;
+
+  const beforeUnwrapped = unwrap(context.before, beforeSchema);
+  const afterUnwrapped = unwrap(context.after, afterSchema);
+  const refs = `${beforeUnwrapped.ref ?? ''}|${afterUnwrapped.ref ?? ''}`;
+  if (refs !== '|') {
+    if (context.comparing.has(refs)) return;
+    context.comparing.add(refs);
+  }
+
+  const before = beforeUnwrapped.schema;
+  const after = afterUnwrapped.schema;
+  const where = describe(location, path);
+
+  const beforeMembers = membersOf(before);
+  const afterMembers = membersOf(after);
+  const unions = beforeMembers.length > 0 && afterMembers.length > 0;
+
+  const beforeTypes = typesOf(context.before, before, beforeUnwrapped.nullable, !unions);
+  const afterTypes = typesOf(context.after, after, afterUnwrapped.nullable, !unions);
+  if (beforeTypes.length > 0 && afterTypes.length > 0) {
+    beforeTypes.filter((type) => !afterTypes.includes(type)).forEach((type) => {
+      report(context, severityOf(direction, true), 'type-changed', where, `no longer accepts type ${type}`);
+    });
+    afterTypes.filter((type) => !beforeTypes.includes(type)).forEach((type) => {
+      report(context, severityOf(direction, false), 'type-changed', where, `now also accepts type ${type}`);
+    });
+  }
+
+  // Union members are paired by reference or content; as many changed on both sides are compared in order.
+  if (unions) {
+    const afterKeys = afterMembers.map((member) => memberKey(context.after, member));
+    const beforeKeys = beforeMembers.map((member) => memberKey(context.before, member));
+    const removed = beforeMembers.filter((member, index) => !afterKeys.includes(beforeKeys[index]));
+    const added = afterMembers.filter((member, index) => !beforeKeys.includes(afterKeys[index]));
+    if (removed.length === added.length) {
+      removed.forEach((member, index) => compareSchemas(member, added[index], direction, location, path, context));
+    } else {
+      if (removed.length > 0) report(context, severityOf(direction, true), 'type-changed', where, `${removed.length} union member(s) were removed`);
+      if (added.length > 0) report(context, severityOf(direction, false), 'type-changed', where, `${added.length} union member(s) were added`);
+    }
+  }
+
+  const beforeParts: JsonSchema[] = before.allOf ?? [];
+  const afterParts: JsonSchema[] = after.allOf ?? [];
+  if (beforeParts.length > 0 && beforeParts.length === afterParts.length) {
+    beforeParts.forEach((part, index) => compareSchemas(part, afterParts[index], direction, location, path, context));
+  }
+
+  const beforeEnum = enumOf(before);
+  const afterEnum = enumOf(after);
+  if (beforeEnum && afterEnum) {
+    const removed = beforeEnum.filter((value) => !afterEnum.includes(value));
+    const added = afterEnum.filter((value) => !beforeEnum.includes(value));
+    if (removed.length > 0) report(context, severityOf(direction, true), 'enum-changed', where, `values ${describeValues(removed)} were removed`);
+    if (added.length > 0) report(context, severityOf(direction, false), 'enum-changed', where, `values ${describeValues(added)} were added`);
+  } else if (beforeEnum || afterEnum) {
+    report(context, severityOf(direction, !beforeEnum), 'enum-changed', where, beforeEnum ? 'is no longer restricted to a list of values' : 'is now restricted to a list of values');
+  }
+
+  compareConstraints(before, after, direction, where, context);
+
+  const beforeProperties: Record<string, JsonSchema> = before.properties ?? {};
+  const afterProperties: Record<string, JsonSchema> = after.properties ?? {};
+  const beforeRequired: string[] = before.required ?? [];
+  const afterRequired: string[] = after.required ?? [];
+  const propertyPath = (key: string) => (path ? `${path}.${key}` : key);
+
+  Object.keys(beforeProperties).forEach((key) => {
+    const property = describe(location, propertyPath(key));
+    if (!(key in afterProperties)) {
+      // Requests may still send a removed property; responses stop sending one clients read.
+      report(context, direction === 'response' ? 'breaking' : 'non-breaking', 'property-removed', property, 'was removed');
+      return;
+    }
+
+    const wasRequired = beforeRequired.includes(key);
+    const isRequired = afterRequired.includes(key);
+    if (!wasRequired && isRequired) {
+      report(context, severityOf(direction, true), 'property-required', property, 'became required');
+    } else if (wasRequired && !isRequired) {
+      report(context, severityOf(direction, false), 'property-optional', property, 'became optional');
+    }
+    compareSchemas(beforeProperties[key], afterProperties[key], direction, location, propertyPath(key), context);
+  });
+
+  Object.keys(afterProperties).filter((key) => !(key in beforeProperties)).forEach((key) => {
+    const required = afterRequired.includes(key);
+    const severity = direction === 'request' && required ? 'breaking' : 'non-breaking';
+    report(context, severity, 'property-added', describe(location, propertyPath(key)), required ? 'was added as required' : 'was added');
+  });
+
+  if (before.items && after.items) {
+    compareSchemas(before.items, after.items, direction, location, `${path}[]`, context);
+  }
+
+  if (refs !== '|') context.comparing.delete(refs);
+};
+
+const compareContent = (
+  before: Record<string, any> | undefined,
+  after: Record<string, any> | undefined,
+  direction: Direction,
+  location: string,
+  context: DiffContext
+) => {
+  const beforeContent = before ?? {};
+  const afterContent = after ?? {};
+
+  Object.keys(beforeContent).forEach((mediaType) => {
+    if (!(mediaType in afterContent)) {
+      report(context, 'breaking', 'media-type-removed', location, `media type ${mediaType} was removed`);
+      return;
+    }
+    compareSchemas(beforeContent[mediaType].schema, afterContent[mediaType].schema, direction, `${location} ${mediaType}`, '', context);
+  });
+
+  Object.keys(afterContent).filter((mediaType) => !(mediaType in beforeContent)).forEach((mediaType) => {
+    report(context, 'non-breaking', 'media-type-added', location, `media type ${mediaType} was added`);
+  });
+};
+
+const parameterKey = (parameter: any) => `${parameter.in} parameter ${parameter.name}`;
+
+const compareParameters = (before: any[], after: any[], context: DiffContext) => {
+  const beforeParameters = new Map(before.map((parameter) => [parameterKey(resolve(context.before, parameter)), resolve(context.before, parameter)]));
+  const afterParameters = new Map(after.map((parameter) => [parameterKey(resolve(context.after, parameter)), resolve(context.after, parameter)]));
+
+  beforeParameters.forEach((parameter, key) => {
+    const next = afterParameters.get(key);
+    if (!next) {
+      report(context, 'non-breaking', 'parameter-removed', key, 'was removed');
+      return;
+    }
+
+    if (!parameter.required && next.required) {
+      report(context, 'breaking', 'parameter-required', key, 'became required');
+    } else if (parameter.required && !next.required) {
+      report(context, 'non-breaking', 'parameter-optional', key, 'became optional');
+    }
+    compareSchemas(parameter.schema, next.schema, 'request', key, '', context);
+  });
+
+  afterParameters.forEach((parameter, key) => {
+    if (beforeParameters.has(key)) return;
+    report(context, parameter.required ? 'breaking' : 'non-breaking', 'parameter-added', key, parameter.required ? 'was added as required' : 'was added');
+  });
+};
+
+const compareRequestBodies = (beforeBody: any, afterBody: any, context: DiffContext) => {
+  const before = resolve(context.before, beforeBody);
+  const after = resolve(context.after, afterBody);
+
+  if (before && !after) {
+    report(context, 'breaking', 'request-body-removed', 'request body', 'was removed');
+  } else if (!before && after) {
+    report(context, after.required ? 'breaking' : 'non-breaking', 'request-body-added', 'request body', after.required ? 'was added as required' : 'was added');
+  } else if (before && after) {
+    if (!before.required && after.required) {
+      report(context, 'breaking', 'request-body-required', 'request body', 'became required');
+    } else if (before.required && !after.required) {
+      report(context, 'non-breaking', 'request-body-optional', 'request body', 'became optional');
+    }
+    compareContent(before.content, after.content, 'request', 'request body', context);
+  }
+};
+
+const compareResponses = (before: Record<string, any>, after: Record<string, any>, context: DiffContext) => {
+  Object.keys(before).forEach((status) => {
+    const location = `response ${status}`;
+    if (!(status in after)) {
+      report(context, 'breaking', 'response-removed', location, 'was removed');
+      return;
+    }
+
+    const beforeResponse = resolve(context.before, before[status]);
+    const afterResponse = resolve(context.after, after[status]);
+    compareContent(beforeResponse.content, afterResponse.content, 'response', location, context);
+
+    const beforeHeaders: Record<string, any> = beforeResponse.headers ?? {};
+    const afterHeaders: Record<string, any> = afterResponse.headers ?? {};
+    Object.keys(beforeHeaders).forEach((name) => {
+      const header = `${location} header ${name}`;
+      if (!(name in afterHeaders)) {
+        report(context, 'breaking', 'header-removed', header, 'was removed');
+        return;
+      }
+      compareSchemas(resolve(context.before, beforeHeaders[name]).schema, resolve(context.after, afterHeaders[name]).schema, 'response', header, '', context);
+    });
+    Object.keys(afterHeaders).filter((name) => !(name in beforeHeaders)).forEach((name) => {
+      report(context, 'non-breaking', 'header-added', `${location} header ${name}`, 'was added');
+    });
+  });
+
+  Object.keys(after).filter((status) => !(status in before)).forEach((status) => {
+    report(context, 'non-breaking', 'response-added', `response ${status}`, 'was added');
+  });
+};
+
+/**
+ * Compares two documents produced by `generateOpenAPISpec` and classifies every difference in
+ * their operations as breaking or not for existing clients.
+ *
+ * Request schemas break clients when they narrow (a new required field, a removed enum value, a
+ * tighter bound); response schemas when they widen or lose something clients read (a removed
+ * field or status, a new enum value, a field becoming optional). `$ref`s are followed.
+ */
+export const diffOpenAPISpecs = (before: any, after: any): SpecDiff => {
+  const changes: SpecChange[] = [];
+  const beforePaths: Record<string, any> = before?.paths ?? {};
+  const afterPaths: Record<string, any> = after?.paths ?? {};
+  const paths = [...new Set([...Object.keys(beforePaths), ...Object.keys(afterPaths)])];
+
+  paths.forEach((path) => {
+    httpMethods.forEach((method) => {
+      const beforeOperation = beforePaths[path]?.[method];
+      const afterOperation = afterPaths[path]?.[method];
+      if (!beforeOperation && !afterOperation) return;
+
+      const context: DiffContext = {
+        before,
+        after,
+        operation: `${method.toUpperCase()} ${path}`,
+        changes,
+        comparing: new Set(),
+      };
+
+      if (!afterOperation) {
+        report(context, 'breaking', 'operation-removed', undefined, 'was removed');
+        return;
+      }
+      if (!beforeOperation) {
+        report(context, 'non-breaking', 'operation-added', undefined, 'was added');
+        return;
+      }
+
+      if (!beforeOperation.deprecated && afterOperation.deprecated) {
+        report(context, 'non-breaking', 'operation-deprecated', undefined, 'was deprecated');
+      }
+
+      compareParameters(
+        [...(beforePaths[path].parameters ?? []), ...(beforeOperation.parameters ?? [])],
+        [...(afterPaths[path].parameters ?? []), ...(afterOperation.parameters ?? [])],
+        context
+      );
+      compareRequestBodies(beforeOperation.requestBody, afterOperation.requestBody, context);
+      compareResponses(beforeOperation.responses ?? {}, afterOperation.responses ?? {}, context);
+    });
+  });
+
+  const breaking = changes.filter((change) => change.severity === 'breaking');
+  return {
+    changes,
+    breaking,
+    nonBreaking: changes.filter((change) => change.severity === 'non-breaking'),
+    hasBreakingChanges: breaking.length > 0,
+  };
+};
+
+const formatChange = ({ operation, location, message }: SpecChange) => {
+  return `  ${[operation, location, message].filter(Boolean).join(' ')}`;
+};
+
+/** Renders a diff as text, breaking changes first. */
+export const formatSpecDiff = (diff: SpecDiff): string => {
+  if (diff.changes.length === 0) return 'No changes.';
+
+  const sections = [
+    diff.breaking.length > 0 ? `Breaking changes (${diff.breaking.length}):\n${diff.breaking.map(formatChange).join('\n')}` : '',
+    diff.nonBreaking.length > 0 ? `Non-breaking changes (${diff.nonBreaking.length}):\n${diff.nonBreaking.map(formatChange).join('\n')}` : '',
+  ];
+  return sections.filter(Boolean).join('\n\n');
+};
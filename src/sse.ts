@@ -0,0 +1,196 @@
+import { Request, Response, RequestHandler } from 'express';
+import type { RouteOptions, RouteSchema, TypedRequest } from './typed-router';
+import { z, ZodType } from './zod';
+import { getResponseValidation } from './config';
+import { EventValidationError } from './errors';
+
+/** Schemas of the events a stream sends, keyed by event name. */
+export type EventSchemas = Record<string, ZodType<any>>;
+
+export interface SSERouteSchema extends Omit<RouteSchema, 'body' | 'files' | 'response'> {
+  events: EventSchemas;
+}
+
+export interface SSERouteOptions<T extends SSERouteSchema> extends Omit<RouteOptions<T>, 'schema'> {
+  schema: T & SSERouteSchema;
+  /** Interval of the keep-alive comments, in milliseconds; 0 disables them. Defaults to 15 seconds. */
+  heartbeat?: number;
+  /** Reconnection delay the client is told to use, in milliseconds. */
+  retry?: number;
+}
+
+export interface SendEventOptions {
+  /** Event id; the client sends the last one back in `Last-Event-ID` when it reconnects. */
+  id?: string;
+}
+
+export interface EventStream<E extends EventSchemas> {
+  /**
+   * Sends an event with its data serialized as JSON, after validating it against the event's
+   * schema. Returns false once the stream is closed, or when the event failed validation in
+   * strict mode, which closes the stream.
+   */
+  send<K extends keyof E & string>(event: K, data: z.input<E[K]>, options?: SendEventOptions): boolean;
+  /** Sends a comment line, ignored by clients. */
+  comment(text: string): boolean;
+  /** Ends the stream. */
+  close(): void;
+  /** Runs when the stream ends, whether the client disconnected or `close` was called. */
+  onClose(listener: () => void): void;
+  /**
+   * Runs when the stream fails and is closed: on an invalid event in strict mode, or when the
+   * handler throws. Without listeners the error is logged.
+   */
+  onError(listener: (error: unknown) => void): void;
+  readonly closed: boolean;
+  /** `Last-Event-ID` of a reconnecting client, to resume after that event. */
+  readonly lastEventId: string | undefined;
+  /** Aborted when the stream ends, for cancelling the work feeding it. */
+  readonly signal: AbortSignal;
+}
+
+export type EventStreamHandler<T extends SSERouteSchema, Context = {}> = (
+  req: TypedRequest<T> & Context,
+  stream: EventStream<T['events']>
+) => void | Promise<void>;
+
+export const isSSERouteSchema = (schema: RouteSchema): schema is SSERouteSchema => {
+  return typeof (schema as SSERouteSchema).events === 'object' && (schema as SSERouteSchema).events !== null;
+};
+
+const defaultHeartbeat = 15_000;
+
+/** `field: value` lines of an event; values spanning lines get a field per line. */
+const formatField = (field: string, value: string) => {
+  return value.split(/\r\n|\r|\n/).map((line) => `${field}: ${line}\n`).join('');
+};
+
+const openStream = <E extends EventSchemas>(
+  events: E,
+  options: SSERouteOptions<any>,
+  req: Request,
+  res: Response
+): { stream: EventStream<E>; fail: (error: unknown) => void } => {
+  const { mode = 'strict' } = { ...getResponseValidation(), ...options.responseValidation };
+  const controller = new AbortController();
+  const listeners: Array<() => void> = [];
+  const errorListeners: Array<(error: unknown) => void> = [];
+  let closed = false;
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Keeps proxies such as nginx from buffering the stream.
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  if (options.retry !== undefined) {
+    res.write(`retry: ${options.retry}\n\n`);
+  }
+
+  const interval = options.heartbeat ?? defaultHeartbeat;
+  const heartbeat = interval > 0 ? setInterval(() => res.write(': heartbeat\n\n'), interval) : undefined;
+
+  const end = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    controller.abort();
+    listeners.forEach((listener) => listener());
+  };
+  res.on('close', end);
+
+  const close = () => {
+    if (closed) return;
+    end();
+    res.end();
+  };
+
+  // The headers are out, so the error handler can't answer anymore: the stream is closed instead.
+  const fail = (error: unknown) => {
+    if (errorListeners.length > 0) {
+      errorListeners.forEach((listener) => listener(error));
+    } else {
+      console.error('Event stream failed:', error);
+    }
+    close();
+  };
+
+  /** The data to send, or an error closing the stream. */
+  const validate = (event: string, data: unknown): { data: unknown } | { error: Error } => {
+    const schema = events[event];
+    if (!schema) {
+      return { error: new Error(`Event "${event}" is not declared in the route's events.`) };
+    }
+    if (mode === 'off') return { data };
+
+    const result = schema.safeParse(data);
+    if (result.success) return { data: result.data };
+
+    const error = new EventValidationError(event, result.error, req);
+    if (mode === 'strict') return { error };
+    console.error(`${error.message}:`, result.error.flatten());
+    return { data };
+  };
+
+  const stream: EventStream<E> = {
+    send(event, data, { id } = {}) {
+      if (closed) return false;
+
+      const validated = validate(event, data);
+      if ('error' in validated) {
+        fail(validated.error);
+        return false;
+      }
+      const output = validated.data;
+      res.write(
+        (id !== undefined ? formatField('id', id) : '') +
+        formatField('event', event) +
+        formatField('data', JSON.stringify(output) ?? 'null') +
+        '\n'
+      );
+      return true;
+    },
+    comment(text) {
+      if (closed) return false;
+      // A field without a name is a comment: `: text`.
+      res.write(`${formatField('', text)}\n`);
+      return true;
+    },
+    close,
+    onClose(listener) {
+      if (closed) listener();
+      else listeners.push(listener);
+    },
+    onError(listener) {
+      errorListeners.push(listener);
+    },
+    get closed() {
+      return closed;
+    },
+    lastEventId: req.get('last-event-id') || undefined,
+    signal: controller.signal,
+  };
+  return { stream, fail };
+};
+
+/**
+ * Opens a `text/event-stream` response once the request is validated and hands the handler a
+ * stream of typed events. The stream stays open after the handler returns, until it calls
+ * `close` or the client disconnects; an error thrown by the handler closes it and goes to the
+ * stream's `onError` listeners, not to the error handler.
+ */
+export const createEventStreamHandler = <T extends SSERouteSchema>(
+  options: SSERouteOptions<T>,
+  handler: EventStreamHandler<T, any>
+): RequestHandler => {
+  return async (req: Request, res: Response) => {
+    const { stream, fail } = openStream(options.schema.events, options, req, res);
+    try {
+      await handler(req as TypedRequest<T>, stream);
+    } catch (error) {
+      fail(error);
+    }
+  };
+};
@@ -1,11 +1,51 @@
 import { OpenAPIRegistry, OpenApiGeneratorV31 } from '@asteasolutions/zod-to-openapi';
-import { getRoutesMetadata } from './typed-router';
-import { getOpenAPIDefaults, getDefaultResponses } from './config';
+import {
+  getRoutesMetadata,
+  collectRoutesMetadata,
+  RouteSource,
+  RouteExamples,
+  BodySchema,
+  Examples,
+  ResponseEntry,
+} from './typed-router';
+import { ExampleIssue, ExampleValidationError } from './errors';
+import { toResponseDefinition } from './lib/response-definition';
+import { getOpenAPIDefaults, getDefaultResponses, getAuthenticators } from './config';
+import { toSecurityScheme } from './auth';
+import { EventSchemas, isSSERouteSchema } from './sse';
+import { deliveryHeaders, WebhookDefinition } from './webhooks';
 import { extractParameters } from './lib/extract-parameters';
-import { zodSchemaToOpenAPISchema } from './lib/zod-to-openapi-schema';
+import {
+  zodSchemaToOpenAPISchema,
+  isOptionalSchema,
+  createConversionContext,
+  collectComponents,
+  renameRefs,
+  ConversionContext,
+  ConversionMode,
+} from './lib/zod-to-openapi-schema';
+import { ContentExamples, isContentSchemas, selectContentExamples } from './lib/media-types';
+import { safeParseOutput } from './lib/output-validation';
+import { getObjectShape } from './lib/object-shape';
+import { setSchemaRefId } from './lib/schema-refs';
+import { ZodType, ZodError } from './zod';
 
 export { zodSchemaToOpenAPISchema } from './lib/zod-to-openapi-schema';
 
+/**
+ * Names a schema so the generated document emits it once under `components.schemas` and
+ * references it with `$ref` wherever it's used: bodies, responses, parameters, multipart
+ * fields and default responses. Equivalent to `schema.openapi('Name')`, which only Zod 4 schemas
+ * have; Zod 3 schemas can be named here too.
+ *
+ * The name is attached to this schema instance; derived schemas (`.extend()`, `.optional()`...)
+ * are separate schemas and stay inline unless registered too.
+ */
+export const registerSchema = <T extends ZodType>(name: string, schema: T): T => {
+  setSchemaRefId(schema, name);
+  return schema;
+};
+
 export interface ContactObject {
   name?: string;
   url?: string;
@@ -123,23 +163,152 @@ export interface OpenAPIConfig {
   externalDocs?: ExternalDocumentationObject;
   security?: Array<Record<string, string[]>>;
   components?: ComponentsObject;
-  webhooks?: Record<string, WebhookObject>;
+  /** Webhooks from `defineWebhook`, or hand-written webhook objects keyed by name. */
+  webhooks?: WebhookDefinition[] | Record<string, WebhookObject>;
   jsonSchemaDialect?: string;
+  /**
+   * What to do with route examples that don't parse with their schema: throw an
+   * `ExampleValidationError` (`strict`, the default), warn (`log`), or nothing (`off`).
+   */
+  exampleValidation?: 'strict' | 'log' | 'off';
 }
 
-export const generateOpenAPISpec = (config: OpenAPIConfig, basePath: string = '') => {
+type ExampleReporter = (location: string, example: string, validationError: ZodError) => void;
+
+/** Request examples are checked as what the schema parses, response examples as what it outputs. */
+const validateExamples = (
+  examples: Examples,
+  schema: ZodType | undefined,
+  mode: ConversionMode,
+  location: string,
+  report: ExampleReporter
+) => {
+  if (!schema) return;
+
+  Object.entries(examples).forEach(([name, { value }]) => {
+    const result = mode === 'input' ? schema.safeParse(value) : safeParseOutput(schema, value);
+    if (!result.success) {
+      report(location, name, result.error);
+    }
+  });
+};
+
+const toContent = (
+  body: BodySchema,
+  context: ConversionContext,
+  mode: ConversionMode,
+  examples: Examples | ContentExamples | undefined,
+  location: string,
+  report: ExampleReporter
+) => {
+  const schemas = isContentSchemas(body) ? body : { 'application/json': body };
+  const mediaTypes = Object.keys(schemas);
+  return Object.fromEntries(
+    Object.entries(schemas).map(([mediaType, schema]) => {
+      const mediaTypeExamples = selectContentExamples(examples, mediaTypes, mediaType);
+      if (mediaTypeExamples) {
+        const examplesLocation = isContentSchemas(body) ? `${location} ${mediaType}` : location;
+        validateExamples(mediaTypeExamples, schema, mode, examplesLocation, report);
+      }
+      return [
+        mediaType,
+        {
+          schema: zodSchemaToOpenAPISchema(schema, context, mode),
+          ...(mediaTypeExamples && { examples: mediaTypeExamples }),
+        },
+      ];
+    })
+  );
+};
+
+const toResponseObject = (
+  entry: ResponseEntry,
+  statusCode: string,
+  context: ConversionContext,
+  report: ExampleReporter
+) => {
+  const { body, headers, description, examples } = toResponseDefinition(entry);
+  const responseHeaders = extractParameters(headers, 'header', context, 'output');
+
+  return {
+    description: description ?? `Response ${statusCode}`,
+    ...(body && {
+      content: toContent(body, context, 'output', examples, `response.${statusCode}`, report),
+    }),
+    ...(responseHeaders.length > 0 && {
+      headers: Object.fromEntries(
+        responseHeaders.map(({ name, in: _in, ...header }) => [name, header])
+      ),
+    }),
+  };
+};
+
+/** An event stream as the union of its events, each one an `event` name with its `data`. */
+const toEventStreamSchema = (events: EventSchemas, context: ConversionContext) => {
+  const eventSchemas = Object.entries(events).map(([event, data]) => ({
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      event: { type: 'string', const: event },
+      data: zodSchemaToOpenAPISchema(data, context, 'output'),
+    },
+    required: ['event', 'data'],
+  }));
+  return eventSchemas.length === 1 ? eventSchemas[0] : { oneOf: eventSchemas };
+};
+
+/**
+ * Generates the OpenAPI document for the routes of `source`: a typed router (walking the
+ * routers mounted on it) or an Express app typed routers were mounted on. Passing a string
+ * instead keeps the legacy behaviour of documenting every route in the process under that base path.
+ */
+export const generateOpenAPISpec = (
+  config: OpenAPIConfig,
+  source: RouteSource | string = '',
+  basePath: string = ''
+) => {
   const registry = new OpenAPIRegistry();
-  const routes = getRoutesMetadata();
+  const routes = typeof source === 'string' ? getRoutesMetadata() : collectRoutesMetadata(source);
+  const pathPrefix = typeof source === 'string' ? source : basePath;
   const defaults = getOpenAPIDefaults();
+  const context = createConversionContext();
+  const exampleIssues: ExampleIssue[] = [];
 
   routes.forEach(({ method, path, schema }) => {
-    const fullPath = `${basePath}${path}`.replace(/\/:([^/]+)/g, '/{$1}');
+    const fullPath = `${pathPrefix}${path}`.replace(/\/:([^/]+)/g, '/{$1}');
+
+    const report: ExampleReporter = (location, example, validationError) => {
+      exampleIssues.push({ route: `${method} ${fullPath}`, location, example, validationError });
+    };
+
+    const segmentParameters = (
+      segmentSchema: ZodType | undefined,
+      paramType: 'path' | 'query' | 'header' | 'cookie',
+      segment: Exclude<keyof RouteExamples, 'body'>
+    ) => {
+      const parameters = extractParameters(segmentSchema, paramType, context);
+      const shape = getObjectShape(segmentSchema) ?? {};
+
+      Object.entries(schema.examples?.[segment] ?? {}).forEach(([name, examples]) => {
+        const parameter = parameters.find((candidate) => candidate.name === name);
+        if (!parameter) {
+          const error = new ZodError([{ code: 'custom', message: `No ${segment} parameter named "${name}"`, path: [] }]);
+          Object.keys(examples).forEach((example) => report(`${segment}.${name}`, example, error));
+          return;
+        }
+        validateExamples(examples, shape[name], 'input', `${segment}.${name}`, report);
+        parameter.examples = examples;
+      });
+
+      return parameters;
+    };
 
     const querySchema = schema.query || schema.querystring;
     const parameters: any[] = [
-      ...extractParameters(schema.params, 'path'),
-      ...extractParameters(querySchema, 'query'),
-      ...extractParameters(schema.headers, 'header'),
+      ...segmentParameters(schema.params, 'path', 'params'),
+      ...segmentParameters(querySchema, 'query', 'query'),
+      ...segmentParameters(schema.headers, 'header', 'headers'),
+      ...segmentParameters(schema.cookies, 'cookie', 'cookies'),
     ];
     
     const request: any = {};
@@ -159,39 +328,43 @@ export const generateOpenAPISpec = (config: OpenAPIConfig, basePath: string = ''
         }
       });
 
-      if (schema.body) {
-        const bodySchema = schema.body as any;
-        const def = bodySchema._def || bodySchema.def;
+      // A body map documents its other media types as they are, and its form fields next to the files.
+      const contentMap = isContentSchemas(schema.body) ? schema.body : undefined;
+      const formSchema = (contentMap ? contentMap['multipart/form-data'] : schema.body) as any;
+      if (formSchema) {
+        const def = formSchema._def || formSchema.def;
         if (def?.typeName === 'ZodObject' || def?.type === 'object') {
           const shape = typeof def.shape === 'function' ? def.shape() : def.shape;
           Object.entries(shape).forEach(([key, value]: [string, any]) => {
-            properties[key] = zodSchemaToOpenAPISchema(value);
-            const isOptional = value.isOptional && value.isOptional();
-            if (!isOptional) {
+            properties[key] = zodSchemaToOpenAPISchema(value, context, 'input');
+            if (!isOptionalSchema(value)) {
               required.push(key);
             }
           });
         }
       }
 
-      request.body = {
-        content: {
-          'multipart/form-data': {
-            schema: {
-              type: 'object',
-              properties,
-              ...(required.length > 0 && { required }),
-            },
-          },
+      const content: Record<string, any> = contentMap
+        ? toContent(contentMap, context, 'input', schema.examples?.body, 'body', report)
+        : {};
+      const mediaTypes = contentMap ? Object.keys(contentMap) : ['multipart/form-data'];
+      const examples = selectContentExamples(schema.examples?.body, mediaTypes, 'multipart/form-data');
+      if (examples && !contentMap) {
+        validateExamples(examples, formSchema, 'input', 'body', report);
+      }
+
+      content['multipart/form-data'] = {
+        schema: {
+          type: 'object',
+          properties,
+          ...(required.length > 0 && { required }),
         },
+        ...(examples && { examples }),
       };
+      request.body = { content };
     } else if (schema.body) {
       request.body = {
-        content: {
-          'application/json': {
-            schema: schema.body,
-          },
-        },
+        content: toContent(schema.body, context, 'input', schema.examples?.body, 'body', report),
       };
     }
 
@@ -204,7 +377,7 @@ export const generateOpenAPISpec = (config: OpenAPIConfig, basePath: string = ''
           description: `Response ${statusCode}`,
           content: {
             'application/json': {
-              schema: zodSchema,
+              schema: zodSchemaToOpenAPISchema(zodSchema, context, 'output'),
             },
           },
         };
@@ -212,17 +385,20 @@ export const generateOpenAPISpec = (config: OpenAPIConfig, basePath: string = ''
     }
     
     if (schema.response) {
-      Object.entries(schema.response).forEach(([statusCode, zodSchema]) => {
-        responses[statusCode] = {
-          description: `Response ${statusCode}`,
-          content: {
-            'application/json': {
-              schema: zodSchema,
-            },
-          },
-        };
+      Object.entries(schema.response).forEach(([statusCode, entry]) => {
+        responses[statusCode] = toResponseObject(entry, statusCode, context, report);
       });
-    } else if (!defaultResponses) {
+    }
+
+    // An event stream's responses only come from its middlewares; the stream itself is the 200.
+    if (isSSERouteSchema(schema)) {
+      responses['200'] = {
+        description: `Server-sent events: ${Object.keys(schema.events).join(', ')}. Each event's data is JSON.`,
+        content: {
+          'text/event-stream': { schema: toEventStreamSchema(schema.events, context) },
+        },
+      };
+    } else if (!schema.response && !defaultResponses) {
       responses['200'] = {
         description: 'Successful response',
       };
@@ -236,13 +412,75 @@ export const generateOpenAPISpec = (config: OpenAPIConfig, basePath: string = ''
       tags: schema.tags,
       operationId: schema.operationId,
       deprecated: schema.deprecated,
-      security: schema.security,
+      security: schema.security as Array<Record<string, string[]>> | undefined,
       ...(parameters.length > 0 && { parameters }),
       ...(Object.keys(request).length > 0 && { request }),
       responses,
     });
   });
 
+  const webhooks = Array.isArray(config.webhooks) ? config.webhooks : [];
+  webhooks.forEach((webhook) => {
+    const report: ExampleReporter = (location, example, validationError) => {
+      exampleIssues.push({ route: `WEBHOOK ${webhook.name}`, location, example, validationError });
+    };
+
+    // The dispatcher's own headers replace declared ones of the same name.
+    const signatureParameters = deliveryHeaders(webhook.delivery).map(({ name, description }) => ({
+      name,
+      in: 'header',
+      required: true,
+      description,
+      schema: { type: 'string' },
+    }));
+    const signatureNames = new Set(signatureParameters.map(({ name }) => name.toLowerCase()));
+    const parameters = [
+      ...extractParameters(webhook.headers, 'header', context, 'output')
+        .filter(({ name }) => !signatureNames.has(name.toLowerCase())),
+      ...signatureParameters,
+    ];
+    const responses = Object.fromEntries(
+      Object.entries(webhook.responses ?? { 200: { description: 'Webhook received' } }).map(([statusCode, entry]) => [
+        statusCode,
+        toResponseObject(entry, statusCode, context, report),
+      ])
+    );
+
+    // The payload is documented as sent: the output of its schema.
+    registry.registerWebhook({
+      method: webhook.method ?? 'post',
+      path: webhook.name,
+      summary: webhook.summary,
+      description: webhook.description,
+      tags: webhook.tags,
+      operationId: webhook.operationId,
+      parameters,
+      request: {
+        body: {
+          required: true,
+          content: toContent(webhook.payload, context, 'output', webhook.examples, 'payload', report),
+        },
+      },
+      responses,
+    });
+  });
+
+  const exampleValidation = config.exampleValidation ?? 'strict';
+  if (exampleIssues.length > 0 && exampleValidation !== 'off') {
+    const error = new ExampleValidationError(exampleIssues);
+    if (exampleValidation === 'strict') {
+      throw error;
+    }
+    console.warn(`[express-zod-openapi] ${error.message}`);
+  }
+
+  // Requests are documented in input mode and responses in output mode, so a named schema can
+  // have two definitions: `Foo` and `FooInput`. Identical ones are merged into `Foo`.
+  const { schemas, renames } = collectComponents(context);
+  Object.entries(schemas).forEach(([name, schema]) => {
+    registry.registerComponent('schemas', name, schema);
+  });
+
   const generator = new OpenApiGeneratorV31(registry.definitions);
   
   const servers = config.servers || defaults?.servers || [{ url: 'http://localhost:3000' }];
@@ -259,15 +497,16 @@ export const generateOpenAPISpec = (config: OpenAPIConfig, basePath: string = ''
     document.externalDocs = config.externalDocs;
   }
 
-  if (config.security) {
-    document.security = config.security;
+  const security = config.security ?? defaults?.security;
+  if (security) {
+    document.security = security;
   }
 
   if (config.components) {
     document.components = config.components;
   }
 
-  if (config.webhooks) {
+  if (config.webhooks && !Array.isArray(config.webhooks)) {
     document.webhooks = config.webhooks;
   }
 
@@ -276,6 +515,8 @@ export const generateOpenAPISpec = (config: OpenAPIConfig, basePath: string = ''
   }
 
   const generatedDoc = generator.generateDocument(document);
+  renameRefs(generatedDoc.paths, renames);
+  renameRefs(generatedDoc.components, renames);
 
   if (config.components) {
     const mergedComponents: any = {
@@ -296,11 +537,22 @@ export const generateOpenAPISpec = (config: OpenAPIConfig, basePath: string = ''
     generatedDoc.components = mergedComponents;
   }
 
-  if (config.security) {
-    (generatedDoc as any).security = config.security;
+  // Registered authenticators document their schemes, unless the config declares them itself.
+  const authenticators = Object.entries(getAuthenticators());
+  if (authenticators.length > 0) {
+    const components: any = generatedDoc.components ?? {};
+    components.securitySchemes = {
+      ...Object.fromEntries(authenticators.map(([name, authenticator]) => [name, toSecurityScheme(authenticator)])),
+      ...components.securitySchemes,
+    };
+    generatedDoc.components = components;
+  }
+
+  if (security) {
+    (generatedDoc as any).security = security;
   }
 
-  if (config.webhooks) {
+  if (config.webhooks && !Array.isArray(config.webhooks)) {
     (generatedDoc as any).webhooks = {
       ...(generatedDoc as any).webhooks,
       ...config.webhooks,
@@ -0,0 +1,456 @@
+import { RequestListener } from 'http';
+import { ZodType } from './zod';
+import { collectRoutesMetadata, RouteMetadata, RouteSchema, RouteSource, ResponseEntry } from './typed-router';
+import { getCoercion, getDefaultResponses } from './config';
+import { ContractFailure, ContractTestError } from './errors';
+import { buildUrl } from './client';
+import { isSSERouteSchema } from './sse';
+import { coerceParameters, ParameterLocation } from './lib/coerce-parameters';
+import { isContentSchemas, selectContentSchema } from './lib/media-types';
+import { toResponseDefinition } from './lib/response-definition';
+import { dispatch } from './lib/dispatch';
+import { reviveDates } from './lib/revive-dates';
+import { generateMockValue } from './lib/mock-data';
+import {
+  collectComponents,
+  createConversionContext,
+  renameRefs,
+  zodSchemaToOpenAPISchema,
+} from './lib/zod-to-openapi-schema';
+
+export interface ContractTestOptions {
+  /** Routes to test. Defaults to the typed routes mounted on `app`. */
+  source?: RouteSource;
+  /** Only tests the routes this returns `true` for. */
+  filter?: (route: RouteMetadata) => boolean;
+  /** Headers sent with every request, such as `authorization`. */
+  headers?: Record<string, string>;
+  /** Statuses that count as rejecting an invalid request. Defaults to `[400]`. */
+  rejectionStatuses?: number[];
+  /** Whether to send the invalid requests too. Defaults to `true`. */
+  invalidRequests?: boolean;
+  /** Milliseconds each request has to be answered in, or the run rejects. Defaults to 5000. */
+  timeout?: number;
+}
+
+export interface ContractRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface ContractCase {
+  /** `valid request`, `body.email missing`, `query.page below minimum 1`... */
+  name: string;
+  kind: 'valid' | 'invalid';
+  request: ContractRequest;
+  status?: number;
+  /** Why the case failed, when it did. */
+  failure?: string;
+}
+
+export interface ContractRouteReport {
+  /** `METHOD /path` */
+  route: string;
+  cases: ContractCase[];
+  /** Why the route was not tested, when it was not. */
+  skipped?: string;
+}
+
+export interface ContractReport {
+  routes: ContractRouteReport[];
+  failures: ContractFailure[];
+  passed: boolean;
+}
+
+type RequestSegment = 'params' | 'query' | 'headers' | 'cookies' | 'body';
+
+type SegmentValues = Partial<Record<RequestSegment, any>>;
+
+type JsonSchema = Record<string, any>;
+
+interface SegmentSchema {
+  schema: ZodType<any>;
+  jsonSchema: JsonSchema;
+  components: Record<string, JsonSchema>;
+}
+
+interface InvalidValue {
+  reason: string;
+  path: string[];
+  value?: unknown;
+  remove?: boolean;
+}
+
+const parameterLocations: Record<Exclude<RequestSegment, 'body'>, ParameterLocation> = {
+  params: 'path',
+  query: 'query',
+  headers: 'header',
+  cookies: 'cookie',
+};
+
+/** Nesting depth up to which invalid values are generated for body properties. */
+const maxInvalidDepth = 3;
+
+const toJsonSchema = (schema: ZodType<any>): SegmentSchema => {
+  const context = createConversionContext();
+  const converted = { jsonSchema: zodSchemaToOpenAPISchema(schema, context, 'input'), ...collectComponents(context) };
+  renameRefs(converted, converted.renames);
+  return { schema, jsonSchema: converted.jsonSchema, components: converted.schemas };
+};
+
+const resolve = (jsonSchema: JsonSchema, components: Record<string, JsonSchema>): JsonSchema => {
+  if (!jsonSchema?.$ref) return jsonSchema ?? {};
+  return resolve(components[jsonSchema.$ref.replace('#/components/schemas/', '')], components);
+};
+
+const typeOf = (jsonSchema: JsonSchema): string | undefined => {
+  const types: string[] = Array.isArray(jsonSchema.type) ? jsonSchema.type : [jsonSchema.type];
+  return types.find((type) => type && type !== 'null') ?? (jsonSchema.properties ? 'object' : undefined);
+};
+
+/** The request body schema, preferring a JSON media type in content maps. */
+const selectBody = (schema: RouteSchema) => {
+  if (!schema.body) return undefined;
+  if (!isContentSchemas(schema.body)) return { mediaType: 'application/json', schema: schema.body };
+
+  const mediaTypes = Object.keys(schema.body);
+  const mediaType = mediaTypes.find((type) => type.includes('json')) ?? mediaTypes[0];
+  return { mediaType, schema: schema.body[mediaType] };
+};
+
+const toParameterString = (value: unknown) => {
+  if (value instanceof Date) return value.toISOString();
+  return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/** Parameters as they travel: strings, with repeated keys for query arrays and commas elsewhere. */
+const toParameterStrings = (values: Record<string, unknown> | undefined, segment: RequestSegment) => {
+  const strings: Record<string, string | string[]> = {};
+  Object.entries(values ?? {}).forEach(([key, value]) => {
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+      strings[key] = toParameterString(value);
+    } else {
+      strings[key] = segment === 'query' ? value.map(toParameterString) : value.map(toParameterString).join(',');
+    }
+  });
+  return strings;
+};
+
+/** Whether the route's validation would accept `value` for the segment once it has been sent. */
+const isAccepted = (schema: ZodType<any>, segment: RequestSegment, value: unknown) => {
+  if (segment === 'body') return schema.safeParse(value).success;
+
+  const sent = toParameterStrings(value as Record<string, unknown>, segment);
+  const input = getCoercion() ? coerceParameters(schema, sent, parameterLocations[segment]) : sent;
+  return schema.safeParse(input).success;
+};
+
+const toRequest = (
+  route: RouteMetadata,
+  values: SegmentValues,
+  bodyMediaType: string | undefined,
+  options: ContractTestOptions
+): ContractRequest => {
+  const headers: Record<string, string> = { ...options.headers };
+  Object.entries(toParameterStrings(values.headers, 'headers')).forEach(([name, value]) => {
+    headers[name] = String(value);
+  });
+
+  const cookies = toParameterStrings(values.cookies, 'cookies');
+  if (Object.keys(cookies).length > 0) {
+    headers.cookie = Object.entries(cookies)
+      .map(([name, value]) => `${name}=${encodeURIComponent(String(value))}`)
+      .join('; ');
+  }
+
+  let body: string | undefined;
+  if (values.body !== undefined && bodyMediaType) {
+    headers['content-type'] = bodyMediaType;
+    if (bodyMediaType.includes('json')) {
+      body = JSON.stringify(values.body);
+    } else if (bodyMediaType === 'application/x-www-form-urlencoded') {
+      const form = new URLSearchParams();
+      Object.entries(toParameterStrings(values.body, 'query')).forEach(([key, value]) => {
+        (Array.isArray(value) ? value : [value]).forEach((item) => form.append(key, item));
+      });
+      body = form.toString();
+    } else {
+      body = typeof values.body === 'string' ? values.body : JSON.stringify(values.body);
+    }
+  }
+
+  return {
+    method: route.method,
+    url: buildUrl('', route.path, toParameterStrings(values.params, 'params'), toParameterStrings(values.query, 'query')),
+    headers,
+    body,
+  };
+};
+
+/** Values a schema rejects: of the wrong type, out of range, not an enum member. */
+const invalidValuesFor = (jsonSchema: JsonSchema, valid: unknown, path: string[]): InvalidValue[] => {
+  const invalid: InvalidValue[] = [];
+  const add = (reason: string, value: unknown) => invalid.push({ reason, path, value });
+
+  if (Array.isArray(jsonSchema.enum)) {
+    add('not an allowed value', 'not-an-allowed-value');
+  }
+
+  switch (typeOf(jsonSchema)) {
+    case 'string':
+      add('of the wrong type', 12345);
+      if (jsonSchema.format) add(`not a valid ${jsonSchema.format}`, 'not-a-valid-value');
+      if (jsonSchema.minLength > 0) add(`shorter than ${jsonSchema.minLength}`, 'x'.repeat(jsonSchema.minLength - 1));
+      if (jsonSchema.maxLength !== undefined) add(`longer than ${jsonSchema.maxLength}`, 'x'.repeat(jsonSchema.maxLength + 1));
+      break;
+
+    case 'number':
+    case 'integer':
+      add('of the wrong type', 'not-a-number');
+      if (typeOf(jsonSchema) === 'integer') add('not an integer', 1.5);
+      if (jsonSchema.minimum !== undefined) add(`below minimum ${jsonSchema.minimum}`, jsonSchema.minimum - 1);
+      if (jsonSchema.exclusiveMinimum !== undefined) add(`not above ${jsonSchema.exclusiveMinimum}`, jsonSchema.exclusiveMinimum);
+      if (jsonSchema.maximum !== undefined) add(`above maximum ${jsonSchema.maximum}`, jsonSchema.maximum + 1);
+      if (jsonSchema.exclusiveMaximum !== undefined) add(`not below ${jsonSchema.exclusiveMaximum}`, jsonSchema.exclusiveMaximum);
+      break;
+
+    case 'boolean':
+      add('of the wrong type', 'not-a-boolean');
+      break;
+
+    case 'array': {
+      const items = Array.isArray(valid) ? valid : [];
+      add('of the wrong type', {});
+      if (jsonSchema.minItems > 0) add(`with fewer than ${jsonSchema.minItems} items`, items.slice(0, jsonSchema.minItems - 1));
+      if (jsonSchema.maxItems !== undefined && items.length > 0) {
+        add(`with more than ${jsonSchema.maxItems} items`, Array.from({ length: jsonSchema.maxItems + 1 }, (_, index) => items[index % items.length]));
+      }
+      break;
+    }
+
+    case 'object':
+      add('of the wrong type', []);
+      break;
+  }
+
+  return invalid;
+};
+
+/** Invalid values for an object's properties: missing required ones and bad values, nested up to `maxInvalidDepth`. */
+const invalidPropertiesFor = (
+  jsonSchema: JsonSchema,
+  valid: any,
+  path: string[],
+  components: Record<string, JsonSchema>
+): InvalidValue[] => {
+  const required: string[] = jsonSchema.required ?? [];
+
+  return Object.entries<JsonSchema>(jsonSchema.properties ?? {}).flatMap(([key, property]) => {
+    const propertyPath = [...path, key];
+    const resolved = resolve(property, components);
+    const invalid = invalidValuesFor(resolved, valid?.[key], propertyPath);
+
+    if (required.includes(key)) {
+      invalid.unshift({ reason: 'missing', path: propertyPath, remove: true });
+    }
+    if (resolved.properties && propertyPath.length < maxInvalidDepth) {
+      invalid.push(...invalidPropertiesFor(resolved, valid?.[key], propertyPath, components));
+    }
+    return invalid;
+  });
+};
+
+const applyInvalidValue = (valid: unknown, { path, value, remove }: InvalidValue) => {
+  if (path.length === 0) return value;
+
+  const result = structuredClone(valid) as any;
+  const parent = path.slice(0, -1).reduce((current, key) => current[key], result);
+  const key = path[path.length - 1];
+  if (remove) {
+    delete parent[key];
+  } else {
+    parent[key] = value;
+  }
+  return result;
+};
+
+const describeIssue = (issue: { path: PropertyKey[]; message: string } | undefined) => {
+  if (!issue) return 'invalid';
+  return issue.path.length > 0 ? `${issue.path.map(String).join('.')}: ${issue.message}` : issue.message;
+};
+
+/** Why a response breaks the route's declared responses, if it does. */
+const checkResponse = (route: RouteMetadata, status: number, headers: Headers, text: string) => {
+  const responses: Record<number, ResponseEntry> = { ...getDefaultResponses(), ...route.schema.response };
+  const statuses = Object.keys(responses);
+  const entry = responses[status];
+
+  if (!entry) {
+    if (statuses.length > 0) return `answered with status ${status}, which is not declared (declared: ${statuses.join(', ')})`;
+    return status >= 500 ? `answered with status ${status}` : undefined;
+  }
+
+  const { body, headers: headersSchema } = toResponseDefinition(entry);
+  if (headersSchema) {
+    const values = coerceParameters(headersSchema, Object.fromEntries(headers.entries()), 'header');
+    const result = headersSchema.safeParse(values);
+    if (!result.success) return `response headers do not match their schema: ${describeIssue(result.error.issues[0])}`;
+  }
+
+  if (body) {
+    const contentType = headers.get('content-type') ?? '';
+    const bodySchema = isContentSchemas(body) ? selectContentSchema(body, contentType) : body;
+    if (!bodySchema) return `answered with content type "${contentType}", which is not declared for status ${status}`;
+
+    let value: unknown = text || undefined;
+    if (text && contentType.includes('json')) {
+      try {
+        value = JSON.parse(text);
+      } catch {
+        return 'response body is not valid JSON';
+      }
+    }
+
+    const result = bodySchema.safeParse(reviveDates(bodySchema, value));
+    if (!result.success) return `response body does not match its schema: ${describeIssue(result.error.issues[0])}`;
+  }
+
+  return undefined;
+};
+
+const buildCases = (route: RouteMetadata, options: ContractTestOptions) => {
+  const { schema } = route;
+  const body = selectBody(schema);
+  const segments: Partial<Record<RequestSegment, ZodType<any> | undefined>> = {
+    params: schema.params,
+    query: schema.query ?? schema.querystring,
+    headers: schema.headers,
+    cookies: schema.cookies,
+    body: body?.schema,
+  };
+
+  const converted = Object.entries(segments)
+    .filter((entry): entry is [RequestSegment, ZodType<any>] => entry[1] !== undefined)
+    .map(([segment, segmentSchema]) => ({ segment, ...toJsonSchema(segmentSchema) }));
+
+  const valid: SegmentValues = {};
+  for (const { segment, schema: segmentSchema, jsonSchema, components } of converted) {
+    valid[segment] = generateMockValue(jsonSchema, components);
+    if (!isAccepted(segmentSchema, segment, valid[segment])) {
+      return { skipped: `could not generate a valid ${segment}` };
+    }
+  }
+
+  const cases: Array<Omit<ContractCase, 'status' | 'failure'>> = [
+    { name: 'valid request', kind: 'valid', request: toRequest(route, valid, body?.mediaType, options) },
+  ];
+
+  if (options.invalidRequests === false) return { cases };
+
+  converted.forEach(({ segment, schema: segmentSchema, jsonSchema, components }) => {
+    const resolved = resolve(jsonSchema, components);
+    const invalidValues = [
+      ...(segment === 'body' ? invalidValuesFor(resolved, valid.body, []) : []),
+      ...invalidPropertiesFor(resolved, valid[segment], [], components),
+    ];
+
+    invalidValues.forEach((invalid) => {
+      // A request without a path parameter does not reach the route.
+      if (segment === 'params' && invalid.remove) return;
+
+      const value = applyInvalidValue(valid[segment], invalid);
+      // Values the route accepts anyway (coerced, or `z.any()`) make no invalid request.
+      if (isAccepted(segmentSchema, segment, value)) return;
+
+      cases.push({
+        name: [[segment, ...invalid.path].join('.'), invalid.reason].join(' '),
+        kind: 'invalid',
+        request: toRequest(route, { ...valid, [segment]: value }, body?.mediaType, options),
+      });
+    });
+  });
+
+  return { cases };
+};
+
+/**
+ * Tests an app against the schemas of its typed routes, in-process: requests are handed to the app
+ * directly, without a server or network connections.
+ *
+ * For every route a valid request is generated from the request schemas, along with invalid ones
+ * (missing required fields, wrong types, out-of-range values). Valid requests must be answered
+ * with a declared status whose body and headers match its schema; invalid requests must be
+ * rejected with a 400. Route handlers run as usual, so point them at test data or use mock mode.
+ * A request left unanswered for `timeout` milliseconds rejects the run, naming its route.
+ *
+ * Routes with file uploads and event streams are skipped.
+ */
+export const runContractTests = async (
+  app: RequestListener,
+  options: ContractTestOptions = {}
+): Promise<ContractReport> => {
+  const rejectionStatuses = options.rejectionStatuses ?? [400];
+  const timeout = options.timeout ?? 5000;
+  const routes = collectRoutesMetadata(options.source ?? (app as unknown as RouteSource))
+    .filter((route) => !options.filter || options.filter(route));
+
+  const reports: ContractRouteReport[] = [];
+  for (const route of routes) {
+    const name = `${route.method} ${route.path}`;
+    if (route.schema.files) {
+      reports.push({ route: name, cases: [], skipped: 'file uploads are not generated' });
+      continue;
+    }
+    if (isSSERouteSchema(route.schema)) {
+      reports.push({ route: name, cases: [], skipped: 'event streams are not tested' });
+      continue;
+    }
+
+    const { cases = [], skipped } = buildCases(route, options);
+    const report: ContractRouteReport = { route: name, cases: [], skipped };
+    reports.push(report);
+
+    for (const contractCase of cases) {
+      const response = await dispatch(app, contractCase.request, { timeout, label: `${name} (${contractCase.name})` });
+
+      let failure: string | undefined;
+      if (contractCase.kind === 'invalid') {
+        failure = rejectionStatuses.includes(response.status)
+          ? undefined
+          : `invalid request was answered with status ${response.status}`;
+      } else if (rejectionStatuses.includes(response.status) && !route.schema.response?.[response.status]) {
+        failure = `valid request was rejected with status ${response.status}: ${response.text.slice(0, 200)}`;
+      } else {
+        failure = checkResponse(route, response.status, response.headers, response.text);
+      }
+
+      report.cases.push({ ...contractCase, status: response.status, failure });
+    }
+  }
+
+  const failures = reports.flatMap(({ route, cases }) => cases
+    .filter((contractCase) => contractCase.failure !== undefined)
+    .map((contractCase) => ({
+      route,
+      case: contractCase.name,
+      status: contractCase.status,
+      message: contractCase.failure!,
+    })));
+
+  return { routes: reports, failures, passed: failures.length === 0 };
+};
+
+/**
+ * Runs `runContractTests` and throws a `ContractTestError` listing the failed cases, for use
+ * inside a test: `await assertContract(app)`.
+ */
+export const assertContract = async (app: RequestListener, options: ContractTestOptions = {}) => {
+  const report = await runContractTests(app, options);
+  if (!report.passed) {
+    throw new ContractTestError(report.failures);
+  }
+  return report;
+};
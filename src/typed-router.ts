@@ -1,7 +1,43 @@
 import { Router, Request, Response, NextFunction, RequestHandler, ErrorRequestHandler } from 'express';
 import { z, ZodSchema, ZodType } from './zod';
-import { getGlobalErrorHandler, defaultErrorHandler, getDefaultResponses } from './config';
-import { RequestValidationError, ResponseValidationError } from './errors';
+import {
+  getGlobalErrorHandler,
+  defaultErrorHandler,
+  getDefaultResponses,
+  getResponseValidation,
+  getCoercion,
+  getValidateAllSegments,
+  ResponseValidationOptions,
+} from './config';
+import {
+  RequestValidationError,
+  ResponseValidationError,
+  UnsupportedMediaTypeError,
+  SegmentErrors,
+  ValidationSegment,
+} from './errors';
+import { getObjectShape } from './lib/object-shape';
+import { ContentExamples, ContentSchemas, isContentSchemas, selectContentSchema } from './lib/media-types';
+import { coerceParameters } from './lib/coerce-parameters';
+import { parseCookies } from './lib/parse-cookies';
+import { toResponseDefinition } from './lib/response-definition';
+import { createMockHandler, MockOptions } from './mock';
+import { AuthOf, createAuthMiddleware } from './auth';
+import { MiddlewareContext, withMiddlewareSchemas } from './middleware';
+import {
+  HookLists,
+  HookName,
+  HookOf,
+  RouteHooks,
+  createHookMiddleware,
+  interceptSend,
+  runResponseHooks,
+  toHookLists,
+  withErrorHooks,
+} from './hooks';
+import { EventStreamHandler, SSERouteOptions, SSERouteSchema, createEventStreamHandler } from './sse';
+
+export type { ContentExamples, ContentSchemas } from './lib/media-types';
 
 export type FileFieldConfig = {
   maxCount?: number;
@@ -9,14 +45,52 @@ export type FileFieldConfig = {
   description?: string;
 };
 
+/** A single body schema, or schemas keyed by media type. */
+export type BodySchema = ZodType<any> | ContentSchemas;
+
+/** A named example, emitted as an OpenAPI example object and checked against its schema. */
+export interface ExampleObject<T = unknown> {
+  summary?: string;
+  description?: string;
+  value: T;
+}
+
+/** Examples keyed by name. */
+export type Examples<T = unknown> = Record<string, ExampleObject<T>>;
+
+/** Request examples: for the body, and per parameter name for the other segments. */
+export interface RouteExamples {
+  /** Examples of the body, or of each of its media types. */
+  body?: Examples | ContentExamples;
+  params?: Record<string, Examples>;
+  query?: Record<string, Examples>;
+  headers?: Record<string, Examples>;
+  cookies?: Record<string, Examples>;
+}
+
+/** Extended response entry, for responses that declare headers or have no body. */
+export interface ResponseDefinition {
+  body?: BodySchema;
+  /** Object schema of the response headers, keyed by header name. */
+  headers?: ZodType<any>;
+  description?: string;
+  /** Examples of the body, or of each of its media types. */
+  examples?: Examples | ContentExamples;
+}
+
+/** A response body schema, schemas keyed by media type, or a `ResponseDefinition`. */
+export type ResponseEntry = ZodType<any> | ContentSchemas | ResponseDefinition;
+
 export interface RouteSchema {
-  body?: ZodType<any>;
+  body?: BodySchema;
   query?: ZodType<any>;
   /** @deprecated Use 'query' instead */
   querystring?: ZodType<any>;
   params?: ZodType<any>;
   headers?: ZodType<any>;
-  response?: Record<number, ZodType<any>>;
+  cookies?: ZodType<any>;
+  response?: Record<number, ResponseEntry>;
+  examples?: RouteExamples;
   files?: Record<string, FileFieldConfig>;
   summary?: string;
   description?: string;
@@ -24,7 +98,11 @@ export interface RouteSchema {
   operationId?: string;
   deprecated?: boolean;
   hide?: boolean;
-  security?: Array<Record<string, string[]>>;
+  /**
+   * Alternative security requirements, enforced by the registered authenticators. Values may be
+   * `undefined` so that alternatives naming different schemes still infer, e.g. `[{ a: [] }, { b: [] }]`.
+   */
+  security?: Array<Record<string, string[] | undefined>>;
   externalDocs?: {
     description?: string;
     url: string;
@@ -34,28 +112,73 @@ export interface RouteSchema {
 export interface RouteOptions<T extends RouteSchema> {
   schema: T & RouteSchema;
   errorHandler?: ErrorRequestHandler;
+  /** Overrides the global response validation options for this route. */
+  responseValidation?: ResponseValidationOptions;
+  /** Overrides the global coercion of query, path and header parameters for this route. */
+  coerce?: boolean;
+  /** Overrides whether every request segment is validated before reporting errors. */
+  validateAllSegments?: boolean;
+  /** Hooks of this route; each one given replaces the router's hooks of the same name. */
+  hooks?: RouteHooks;
 }
 
+export type InferBody<B> = B extends ZodType
+  ? z.infer<B>
+  : B extends ContentSchemas ? z.infer<B[keyof B]> : unknown;
+
 type InferSchemaTypes<T extends RouteSchema> = {
-  Body: T['body'] extends ZodType ? z.infer<T['body']> : unknown;
+  Body: InferBody<T['body']>;
   Query: T['query'] extends ZodType ? z.infer<T['query']> : (T['querystring'] extends ZodType ? z.infer<T['querystring']> : unknown);
   Params: T['params'] extends ZodType ? z.infer<T['params']> : unknown;
   Headers: T['headers'] extends ZodType ? z.infer<T['headers']> : unknown;
+  Cookies: T['cookies'] extends ZodType ? z.infer<T['cookies']> : Record<string, any>;
+};
+
+export type ResponseBody<E> = E extends ZodType
+  ? z.infer<E>
+  : E extends { body: BodySchema }
+    ? InferBody<E['body']>
+    : E extends { headers: any } | { description: any } ? unknown : InferBody<E>;
+
+export type ResponseHeaders<E> = E extends { headers: ZodType } ? z.input<E['headers']> : {};
+
+type AllKeys<U> = U extends any ? keyof U : never;
+
+type MergedHeaders<U> = {
+  [K in AllKeys<U> & string]?: U extends any ? (K extends keyof U ? U[K] : never) : never;
 };
 
-export type TypedResponse<T extends RouteSchema> = Omit<Response, 'json' | 'send' | 'status'> & {
+type AllResponseHeaders<T extends RouteSchema> = T['response'] extends Record<number, ResponseEntry>
+  ? MergedHeaders<ResponseHeaders<T['response'][keyof T['response']]>>
+  : {};
+
+/** `res.set` / `res.header`, with the values of declared headers checked against their schema. */
+type TypedHeaderSetter<H, R> = {
+  <K extends keyof H & string>(field: K, value: H[K]): R;
+  <F extends string>(field: F extends keyof H ? never : F, value?: string | string[]): R;
+  (fields: Partial<H> & Record<string, any>): R;
+};
+
+export type TypedResponse<T extends RouteSchema> = Omit<Response, 'json' | 'send' | 'status' | 'sendStatus' | 'set' | 'header'> & {
   status<S extends keyof T['response']>(code: S): TypedResponseWithStatus<T, S>;
-  json: T['response'] extends Record<number, ZodType>
-    ? <S extends keyof T['response']>(body: z.infer<T['response'][S]>) => Response
+  json: T['response'] extends Record<number, ResponseEntry>
+    ? <S extends keyof T['response']>(body: ResponseBody<T['response'][S]>) => Response
     : Response['json'];
-  send: T['response'] extends Record<number, ZodType>
-    ? <S extends keyof T['response']>(body: z.infer<T['response'][S]>) => Response
+  send: T['response'] extends Record<number, ResponseEntry>
+    ? <S extends keyof T['response']>(body: ResponseBody<T['response'][S]>) => Response
     : Response['send'];
+  sendStatus: T['response'] extends Record<number, ResponseEntry>
+    ? (code: keyof T['response'] & number) => Response
+    : Response['sendStatus'];
+  set: TypedHeaderSetter<AllResponseHeaders<T>, TypedResponse<T>>;
+  header: TypedHeaderSetter<AllResponseHeaders<T>, TypedResponse<T>>;
 };
 
-type TypedResponseWithStatus<T extends RouteSchema, S extends keyof T['response']> = Omit<Response, 'json' | 'send'> & {
-  json(body: z.infer<T['response'][S]>): Response;
-  send(body: z.infer<T['response'][S]>): Response;
+type TypedResponseWithStatus<T extends RouteSchema, S extends keyof T['response']> = Omit<Response, 'json' | 'send' | 'set' | 'header'> & {
+  json(body: ResponseBody<T['response'][S]>): Response;
+  send(body: ResponseBody<T['response'][S]>): Response;
+  set: TypedHeaderSetter<ResponseHeaders<T['response'][S]>, TypedResponseWithStatus<T, S>>;
+  header: TypedHeaderSetter<ResponseHeaders<T['response'][S]>, TypedResponseWithStatus<T, S>>;
 };
 
 export type TypedRequest<T extends RouteSchema> = Request<
@@ -65,28 +188,320 @@ export type TypedRequest<T extends RouteSchema> = Request<
   InferSchemaTypes<T>['Query']
 > & {
   headers: InferSchemaTypes<T>['Headers'] & Request['headers'];
+  cookies: InferSchemaTypes<T>['Cookies'];
+  /** Principals resolved by the authenticators of the route's security requirement. */
+  auth: AuthOf<T>;
 };
 
-type TypedRequestHandler<T extends RouteSchema> = (
-  req: TypedRequest<T>,
+type TypedRequestHandler<T extends RouteSchema, Context = {}> = (
+  req: TypedRequest<T> & Context,
   res: TypedResponse<T>
 ) => void | Promise<void> | Response | Promise<Response> | Promise<Response | undefined>;
 
-interface RouteMetadata {
+export interface RouteMetadata {
   method: string;
   path: string;
   schema: RouteSchema;
 }
 
+interface MountedRouter {
+  path: string;
+  router: TypedRouter;
+}
+
+export type TypedRouter<Routes extends RouteDefinitions = {}> = Router & TypedRouterMethods<Routes>;
+
+/** The route map of a typed router, e.g. `RouteMap<typeof router>`. */
+export type RouteMap<R> = R extends { readonly '~routes'?: infer Routes } ? NonNullable<Routes> : never;
+
+/**
+ * Anything routes can be collected from: a typed router (including the routers
+ * mounted on it) or an Express app that typed routers were mounted on.
+ */
+export type RouteSource = TypedRouter | { use: (...args: any[]) => any };
+
+const TYPED_ROUTER = Symbol('express-zod-openapi-typed.router');
+
 const routesMetadata: RouteMetadata[] = [];
 
-const createValidationMiddleware = <T extends RouteSchema>(
-  schema: T,
+const appMounts = new WeakMap<object, MountedRouter[]>();
+
+const routerHooks = new WeakMap<object, HookLists>();
+
+/** Typed routers each typed router was mounted on. */
+const routerParents = new WeakMap<object, object[]>();
+
+/** Typed routers handling a request, outermost first. */
+const requestRouters = new WeakMap<object, object[]>();
+
+/** Error handler of the typed route handling a request, with its `onError` hooks. */
+const routeErrorHandlers = new WeakMap<object, ErrorRequestHandler>();
+
+/**
+ * The error handler of the typed route a request is in, for middlewares answering with errors
+ * themselves: the route's `errorHandler`, else the global one, else the default one.
+ */
+export const getRouteErrorHandler = (req: Request): ErrorRequestHandler => {
+  return routeErrorHandlers.get(req) ?? getGlobalErrorHandler() ?? defaultErrorHandler;
+};
+
+/**
+ * A router's hooks after those inherited from the parent the request came through: a router
+ * mounted on several parents only runs the hooks of the one it was reached from.
+ */
+const collectRouterHooks = <N extends HookName>(router: object, name: N, req: Request): Array<HookOf<N>> => {
+  const parents = routerParents.get(router) ?? [];
+  const entered = requestRouters.get(req) ?? [];
+  const index = entered.lastIndexOf(router);
+  const parent = entered.slice(0, index === -1 ? entered.length : index).reverse().find((candidate) => parents.includes(candidate));
+
+  const inherited = parent ? collectRouterHooks(parent, name, req) : [];
+  return [...inherited, ...(routerHooks.get(router)?.[name] ?? [])];
+};
+
+export const isTypedRouter = (value: any): value is TypedRouter => {
+  return typeof value === 'function' && value[TYPED_ROUTER] === true;
+};
+
+const joinPaths = (prefix: string, path: string) => {
+  return `${prefix}/${path}`.replace(/\/{2,}/g, '/').replace(/(.)\/$/, '$1');
+};
+
+const toMountPaths = (path: unknown): string[] => {
+  const paths = Array.isArray(path) ? path : [path];
+  return paths.filter((p): p is string => typeof p === 'string');
+};
+
+const prefixRoutes = (mounts: MountedRouter[]): RouteMetadata[] => {
+  return mounts.flatMap(({ path, router }) =>
+    router.getRoutesMetadata().map((route) => ({ ...route, path: joinPaths(path, route.path) }))
+  );
+};
+
+export const collectRoutesMetadata = (source: RouteSource): RouteMetadata[] => {
+  if (isTypedRouter(source)) {
+    return source.getRoutesMetadata();
+  }
+  return prefixRoutes(appMounts.get(source) ?? []);
+};
+
+/** The media type a response is sent with, when the handler did not set `Content-Type` itself. */
+const defaultMediaType = (body: unknown) => {
+  if (body === undefined || typeof body === 'string') return 'text/html';
+  if (Buffer.isBuffer(body)) return 'application/octet-stream';
+  return 'application/json';
+};
+
+const selectRequestBodySchema = (body: BodySchema, req: Request) => {
+  if (!isContentSchemas(body)) return body;
+
+  const mediaTypes = Object.keys(body);
+  // `req.is` returns null for requests without a body; validate those against the first schema.
+  if (req.is(mediaTypes) === null) return body[mediaTypes[0]];
+
+  const mediaType = mediaTypes.find((type) => req.is(type));
+  return mediaType ? body[mediaType] : undefined;
+};
+
+const readResponseHeaders = (res: Response, headersSchema: ZodType<any>) => {
+  const headers: Record<string, unknown> = {};
+  Object.keys(getObjectShape(headersSchema) ?? {}).forEach((name) => {
+    const value = res.getHeader(name);
+    if (value !== undefined) {
+      headers[name] = typeof value === 'number' ? String(value) : value;
+    }
+  });
+  return headers;
+};
+
+const readEndBody = (res: Response, chunk: unknown) => {
+  if (chunk === undefined || typeof chunk === 'function') return undefined;
+
+  const body = Buffer.isBuffer(chunk) ? chunk.toString() : chunk;
+  const contentType = String(res.getHeader('content-type') ?? '');
+  if (typeof body === 'string' && contentType.includes('json')) {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+  return body;
+};
+
+/** Requests whose route passed an error on to the error handlers. */
+const failedRequests = new WeakSet<object>();
+
+/**
+ * Validates whatever the handler sends, however it sends it (`json`, `send`, `sendStatus`,
+ * `end`), against the schema of the status code in effect at that moment, and rejects
+ * statuses the route does not declare, redirects too unless `allowRedirects` is set. Only the
+ * outermost call is checked: Express' own `json` -> `send` -> `end` chain passes through, and
+ * so does every response once the request went to the error handlers.
+ *
+ * Requests left out by `sampleRate` (or every request in `off` mode) are not reported, but
+ * with `sendParsed` their bodies are still parsed so undeclared fields never leak: a body that
+ * does not parse goes to the error handler, whatever the mode, rather than out as it is.
+ */
+const interceptResponse = (
+  responseEntries: Record<number, ResponseEntry>,
+  options: ResponseValidationOptions,
+  req: Request,
+  res: Response,
+  next: NextFunction,
   routeErrorHandler?: ErrorRequestHandler
-): RequestHandler => {
+) => {
+  const { mode = 'strict', sampleRate = 1, sendParsed = false, allowRedirects = false } = options;
+  const entries: Record<number, ResponseEntry> = { ...getDefaultResponses(), ...responseEntries };
+  const originalJson = res.json.bind(res);
+  const originalSend = res.send.bind(res);
+  const originalEnd = res.end.bind(res) as (...args: any[]) => Response;
+  const originalSendStatus = res.sendStatus.bind(res);
+
+  const reported = mode !== 'off' && Math.random() < sampleRate;
+  let checked = false;
+
+  /** Returns the body to send, or `undefined` once the error handler has taken over. */
+  const validateResponse = (body: any, checkContent: boolean, mediaType: string): { body: any } | undefined => {
+    const statusCode = res.statusCode;
+    const entry = entries[statusCode];
+
+    const issues: z.core.$ZodIssue[] = [];
+    let output = body;
+    let parsed = false;
+    if (!entry && allowRedirects && statusCode >= 300 && statusCode < 400) {
+      return { body };
+    } else if (!entry) {
+      issues.push({
+        code: 'custom',
+        message: `Status ${statusCode} is not declared in the route response schemas`,
+        path: [],
+        input: undefined,
+      });
+    } else if (checkContent) {
+      const { body: bodyContent, headers: headersSchema } = toResponseDefinition(entry);
+      const contentType = String(res.getHeader('content-type') ?? mediaType);
+      const bodySchema = isContentSchemas(bodyContent) ? selectContentSchema(bodyContent, contentType) : bodyContent;
+
+      if (bodyContent && !bodySchema) {
+        issues.push({
+          code: 'custom',
+          message: `Content type ${contentType} is not declared for status ${statusCode}`,
+          path: [],
+          input: undefined,
+        });
+      } else if (bodySchema) {
+        const result = bodySchema.safeParse(body);
+        if (result.success) {
+          output = sendParsed ? result.data : body;
+          parsed = true;
+        } else {
+          issues.push(...result.error.issues);
+        }
+      }
+
+      if (headersSchema) {
+        const result = headersSchema.safeParse(readResponseHeaders(res, headersSchema));
+        if (!result.success) {
+          issues.push(...result.error.issues.map((issue) => ({ ...issue, path: ['headers', ...issue.path] })));
+        }
+      }
+    }
+
+    if (issues.length === 0) return { body: output };
+
+    // With `sendParsed`, a body that did not parse has no stripped version to send instead.
+    const withheld = sendParsed && !parsed && body !== undefined;
+    if (!reported && !withheld) return { body: output };
+
+    const validationError = new z.ZodError(issues);
+    console.error(`Response validation failed for status ${statusCode}:`, validationError.flatten());
+    if (mode === 'log' && !withheld) return { body: output };
+
+    // A response streamed with `res.write` is on its way already; it's cut off rather than answered again.
+    if (res.headersSent) {
+      res.destroy();
+      return undefined;
+    }
+
+    const error = new ResponseValidationError(statusCode, validationError, req, res, body);
+    const handler = routeErrorHandler ?? getGlobalErrorHandler() ?? defaultErrorHandler;
+    handler(error, req, res, next);
+    return undefined;
+  };
+
+  const intercept = <A extends any[]>(
+    send: (...args: A) => Response,
+    getBody: (...args: A) => any,
+    { mediaType, withBody, checkContent = () => true }: {
+      mediaType: (body: any) => string;
+      withBody?: (args: A, body: any) => A;
+      checkContent?: () => boolean;
+    }
+  ) => {
+    return (...args: A): Response => {
+      if (checked || failedRequests.has(req)) return send(...args);
+      checked = true;
+      if (!reported && !sendParsed) return send(...args);
+
+      const body = getBody(...args);
+      const validated = validateResponse(body, checkContent(), mediaType(body));
+      if (!validated) return res;
+      return send(...(withBody ? withBody(args, validated.body) : args));
+    };
+  };
+
+  const replaceBody = (_: [body?: any], body: any): [body?: any] => [body];
+
+  res.json = intercept(originalJson, (body?: any) => body, {
+    mediaType: () => 'application/json',
+    withBody: replaceBody,
+  });
+  res.send = intercept(originalSend, (body?: any) => body, {
+    mediaType: defaultMediaType,
+    withBody: replaceBody,
+  });
+  res.end = intercept(originalEnd, (chunk?: unknown) => readEndBody(res, chunk), {
+    mediaType: () => 'application/octet-stream',
+    // A response streamed with `res.write` has its headers out already; only its status can be checked.
+    checkContent: () => !res.headersSent,
+  }) as any;
+
+  const sendStatus = intercept(originalSendStatus, () => undefined, {
+    mediaType: () => 'text/plain',
+  });
+  res.sendStatus = (code: number) => {
+    if (!checked) res.statusCode = code;
+    return sendStatus(code);
+  };
+};
+
+const createValidationMiddleware = <T extends RouteSchema>(options: RouteOptions<T>): RequestHandler => {
+  const {
+    schema,
+    errorHandler: routeErrorHandler,
+    responseValidation: routeResponseValidation,
+    coerce: routeCoerce,
+    validateAllSegments: routeValidateAllSegments,
+  } = options;
+
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
       const globalErrorHandler = getGlobalErrorHandler();
+      const coerce = routeCoerce ?? getCoercion();
+      const validateAllSegments = routeValidateAllSegments ?? getValidateAllSegments();
+      const segmentErrors: SegmentErrors = {};
+
+      const addError = (segment: ValidationSegment, error: z.ZodError) => {
+        const existing = segmentErrors[segment];
+        segmentErrors[segment] = existing ? new z.ZodError([...existing.issues, ...error.issues]) : error;
+      };
+
+      const reject = (error?: RequestValidationError) => {
+        const [segment] = Object.keys(segmentErrors) as ValidationSegment[];
+        const handler = routeErrorHandler ?? globalErrorHandler ?? defaultErrorHandler;
+        return handler(error ?? new RequestValidationError(segment, segmentErrors[segment]!, req, segmentErrors), req, res, next);
+      };
 
       if (schema.files) {
         const files = (req as any).files || {};
@@ -110,29 +525,30 @@ const createValidationMiddleware = <T extends RouteSchema>(
         });
 
         if (missingFiles.length > 0) {
-          const zodError = new z.ZodError([
+          addError('body', new z.ZodError([
             {
               code: 'custom',
               message: `Missing required files: ${missingFiles.join(', ')}`,
               path: ['files'],
             },
-          ]);
-          const error = new RequestValidationError('body', zodError, req);
-          const handler = routeErrorHandler ?? globalErrorHandler ?? defaultErrorHandler;
-          return handler(error, req, res, next);
-
+          ]));
+          if (!validateAllSegments) return reject();
         }
       }
 
       if (schema.body) {
-        const bodyResult = await schema.body.safeParseAsync(req.body);
-        if (!bodyResult.success) {
-          const error = new RequestValidationError('body', bodyResult.error, req);
-          const handler = routeErrorHandler ?? globalErrorHandler ?? defaultErrorHandler;
-          return handler(error, req, res, next);
+        const bodySchema = selectRequestBodySchema(schema.body, req);
+        if (!bodySchema) {
+          return reject(new UnsupportedMediaTypeError(req.get('content-type'), Object.keys(schema.body), req));
+        }
 
+        const bodyResult = await bodySchema.safeParseAsync(req.body);
+        if (!bodyResult.success) {
+          addError('body', bodyResult.error);
+          if (!validateAllSegments) return reject();
+        } else {
+          req.body = bodyResult.data;
         }
-        req.body = bodyResult.data;
       }
 
       const querySchema = schema.query || schema.querystring;
@@ -141,85 +557,72 @@ const createValidationMiddleware = <T extends RouteSchema>(
           console.warn('[express-zod-openapi] DEPRECATION WARNING: "querystring" is deprecated. Use "query" instead to match Express conventions.');
         }
 
-        const queryResult = await querySchema.safeParseAsync(req.query);
+        const query = coerce ? coerceParameters(querySchema, req.query, 'query') : req.query;
+        const queryResult = await querySchema.safeParseAsync(query);
         if (!queryResult.success) {
-          const error = new RequestValidationError('query', queryResult.error, req);
-          const handler = routeErrorHandler ?? globalErrorHandler ?? defaultErrorHandler;
-          return handler(error, req, res, next);
-
+          addError('query', queryResult.error);
+          if (!validateAllSegments) return reject();
+        } else {
+          Object.defineProperty(req, 'query', {
+            value: queryResult.data,
+            writable: true,
+            enumerable: true,
+            configurable: true,
+          });
         }
-        
-        Object.defineProperty(req, 'query', {
-          value: queryResult.data,
-          writable: true,
-          enumerable: true,
-          configurable: true,
-        });
       }
 
       if (schema.params) {
-        const paramsResult = await schema.params.safeParseAsync(req.params);
+        const params = coerce ? coerceParameters(schema.params, req.params, 'path') : req.params;
+        const paramsResult = await schema.params.safeParseAsync(params);
         if (!paramsResult.success) {
-          const error = new RequestValidationError('params', paramsResult.error, req);
-          const handler = routeErrorHandler ?? globalErrorHandler ?? defaultErrorHandler;
-          return handler(error, req, res, next);
-
+          addError('params', paramsResult.error);
+          if (!validateAllSegments) return reject();
+        } else {
+          Object.defineProperty(req, 'params', {
+            value: paramsResult.data,
+            writable: true,
+            enumerable: true,
+            configurable: true,
+          });
         }
-
-        Object.defineProperty(req, 'params', {
-          value: paramsResult.data,
-          writable: true,
-          enumerable: true,
-          configurable: true,
-        });
       }
 
       if (schema.headers) {
-        const headersResult = await schema.headers.safeParseAsync(req.headers);
+        const headers = coerce ? coerceParameters(schema.headers, req.headers, 'header') : req.headers;
+        const headersResult = await schema.headers.safeParseAsync(headers);
         if (!headersResult.success) {
-          const error = new RequestValidationError('headers', headersResult.error, req);
-          const handler = routeErrorHandler ?? globalErrorHandler ?? defaultErrorHandler;
-          return handler(error, req, res, next);
-
+          addError('headers', headersResult.error);
+          if (!validateAllSegments) return reject();
+        } else {
+          Object.assign(req.headers, headersResult.data);
         }
-        Object.assign(req.headers, headersResult.data);
       }
 
-      if (schema.response) {
-        const originalJson = res.json.bind(res);
-        const originalStatus = res.status.bind(res);
-        const defaultResponses = getDefaultResponses();
-
-        let currentStatusCode = 200;
-
-        res.status = function(code: number) {
-          currentStatusCode = code;
-          return originalStatus(code);
-        };
+      if (schema.cookies) {
+        const rawCookies = (req as any).cookies ?? parseCookies(req.headers.cookie);
+        const cookies = coerce ? coerceParameters(schema.cookies, rawCookies, 'cookie') : rawCookies;
+        const cookiesResult = await schema.cookies.safeParseAsync(cookies);
+        if (!cookiesResult.success) {
+          addError('cookies', cookiesResult.error);
+          if (!validateAllSegments) return reject();
+        } else {
+          Object.defineProperty(req, 'cookies', {
+            value: cookiesResult.data,
+            writable: true,
+            enumerable: true,
+            configurable: true,
+          });
+        }
+      }
 
-        res.json = function(body: any) {
-          let responseSchema = schema.response![currentStatusCode];
-          
-          if (!responseSchema && defaultResponses) {
-            responseSchema = defaultResponses[currentStatusCode];
-          }
+      if (Object.keys(segmentErrors).length > 0) {
+        return reject();
+      }
 
-          if (responseSchema) {
-            const result = responseSchema.safeParse(body);
-            if (!result.success) {
-              console.error(`Response validation failed for status ${currentStatusCode}:`, result.error.flatten());
-              const error = new ResponseValidationError(currentStatusCode, result.error, req, res, body);
-              if (routeErrorHandler) {
-                routeErrorHandler(error, req, res, next);
-                return res;
-              }
-              const handler = globalErrorHandler || defaultErrorHandler;
-              handler(error, req, res, next);
-              return res;
-            }
-          }
-          return originalJson(body);
-        } as any;
+      const responseValidation = { ...getResponseValidation(), ...routeResponseValidation };
+      if (schema.response && (responseValidation.mode !== 'off' || responseValidation.sendParsed)) {
+        interceptResponse(schema.response, responseValidation, req, res, next, routeErrorHandler);
       }
 
       next();
@@ -229,140 +632,291 @@ const createValidationMiddleware = <T extends RouteSchema>(
   };
 };
 
-export const CreateTypedRouter = () => {
+export interface TypedRouterOptions {
+  /** Answers every route with data generated from its response schemas instead of running its handler. */
+  mock?: boolean | MockOptions;
+  /** Hooks of every route of this router and of the routers mounted on it. */
+  hooks?: RouteHooks;
+}
+
+export const CreateTypedRouter = (routerOptions: TypedRouterOptions = {}) => {
   const expressRouter = Router();
+  const mockOptions = routerOptions.mock === true ? {} : routerOptions.mock || undefined;
+  const ownRoutes: RouteMetadata[] = [];
+  const mounts: MountedRouter[] = [];
+  const hooks = toHookLists(routerOptions.hooks);
 
   const registerRoute = <T extends RouteSchema>(
     method: 'get' | 'post' | 'put' | 'delete' | 'patch',
     path: string,
-    schema: T,
+    options: RouteOptions<T>,
     handler: TypedRequestHandler<T>,
-    errorHandler?: ErrorRequestHandler,
     middlewares?: RequestHandler[]
   ) => {
+    const { schema } = options;
     if (!schema.hide) {
-      routesMetadata.push({ method: method.toUpperCase(), path, schema });
+      const metadata = { method: method.toUpperCase(), path, schema: withMiddlewareSchemas(schema, middlewares ?? []) };
+      ownRoutes.push(metadata);
+      routesMetadata.push(metadata);
     }
 
-    const validationMiddleware = createValidationMiddleware(schema, errorHandler);
-    const allMiddlewares = middlewares 
-      ? [...middlewares, validationMiddleware]
-      : [validationMiddleware];
-    expressRouter[method](path, ...allMiddlewares, handler as any);
+    // Resolved per request, so hooks added later and those of routers mounted later apply.
+    const routeHooks = toHookLists(options.hooks);
+    const resolveHooks = <N extends HookName>(name: N, req: Request): Array<HookOf<N>> => {
+      return options.hooks?.[name] !== undefined ? routeHooks[name] : collectRouterHooks(proxy, name, req);
+    };
+
+    const errorHandler = withErrorHooks((req) => resolveHooks('onError', req), (error, req, res, next) => {
+      const handler = options.errorHandler ?? getGlobalErrorHandler() ?? defaultErrorHandler;
+      return handler(error, req, res, next);
+    });
+    const lifecycleMiddleware: RequestHandler = (req, res, next) => {
+      routeErrorHandlers.set(req, errorHandler);
+      const onSend = resolveHooks('onSend', req);
+      if (onSend.length > 0) interceptSend(onSend, req, res, next);
+      const onResponse = resolveHooks('onResponse', req);
+      if (onResponse.length > 0) runResponseHooks(onResponse, req, res);
+      next();
+    };
+
+    const authMiddleware = createAuthMiddleware(schema, errorHandler);
+    const validationMiddleware = createValidationMiddleware({ ...options, errorHandler });
+    const allMiddlewares = [
+      lifecycleMiddleware,
+      createHookMiddleware((req) => resolveHooks('onRequest', req)),
+      ...(middlewares ?? []),
+      authMiddleware,
+      createHookMiddleware((req) => resolveHooks('preValidation', req)),
+      validationMiddleware,
+      createHookMiddleware((req) => resolveHooks('preHandler', req)),
+    ];
+    const routeHandler = mockOptions ? createMockHandler(schema, mockOptions) : handler;
+    const errorHooks = withErrorHooks((req) => resolveHooks('onError', req), (error, req, res, next) => next(error));
+    // Responses of the error handlers aren't the route's own, so they are no longer validated.
+    const markFailed: ErrorRequestHandler = (error, req, res, next) => {
+      failedRequests.add(req);
+      next(error);
+    };
+    expressRouter[method](path, ...allMiddlewares, routeHandler as any, markFailed, errorHooks);
   };
 
   const typedRouter = {
     get(path: string, options: any, ...handlersAndMiddlewares: any[]) {
       const handler = handlersAndMiddlewares.pop() as any;
       const middlewares = handlersAndMiddlewares as RequestHandler[];
-      registerRoute('get', path, options.schema, handler, options.errorHandler, middlewares);
+      registerRoute('get', path, options, handler, middlewares);
       return this;
     },
 
     post(path: string, options: any, ...handlersAndMiddlewares: any[]) {
       const handler = handlersAndMiddlewares.pop() as any;
       const middlewares = handlersAndMiddlewares as RequestHandler[];
-      registerRoute('post', path, options.schema, handler, options.errorHandler, middlewares);
+      registerRoute('post', path, options, handler, middlewares);
       return this;
     },
 
     put(path: string, options: any, ...handlersAndMiddlewares: any[]) {
       const handler = handlersAndMiddlewares.pop() as any;
       const middlewares = handlersAndMiddlewares as RequestHandler[];
-      registerRoute('put', path, options.schema, handler, options.errorHandler, middlewares);
+      registerRoute('put', path, options, handler, middlewares);
       return this;
     },
 
     delete(path: string, options: any, ...handlersAndMiddlewares: any[]) {
       const handler = handlersAndMiddlewares.pop() as any;
       const middlewares = handlersAndMiddlewares as RequestHandler[];
-      registerRoute('delete', path, options.schema, handler, options.errorHandler, middlewares);
+      registerRoute('delete', path, options, handler, middlewares);
       return this;
     },
 
     patch(path: string, options: any, ...handlersAndMiddlewares: any[]) {
       const handler = handlersAndMiddlewares.pop() as any;
       const middlewares = handlersAndMiddlewares as RequestHandler[];
-      registerRoute('patch', path, options.schema, handler, options.errorHandler, middlewares);
+      registerRoute('patch', path, options, handler, middlewares);
+      return this;
+    },
+
+    sse(path: string, options: any, ...handlersAndMiddlewares: any[]) {
+      const handler = handlersAndMiddlewares.pop() as any;
+      const middlewares = handlersAndMiddlewares as RequestHandler[];
+      registerRoute('get', path, options, createEventStreamHandler(options, handler) as any, middlewares);
+      return this;
+    },
+
+    use(...args: any[]) {
+      const hasPath = typeof args[0] === 'string' || Array.isArray(args[0]) && typeof args[0][0] === 'string';
+      const paths = hasPath ? toMountPaths(args[0]) : ['/'];
+      const handlers = (hasPath ? args.slice(1) : args).flat(Infinity);
+
+      handlers.filter(isTypedRouter).forEach((router) => {
+        paths.forEach((path) => mounts.push({ path, router }));
+        routerParents.set(router, [...(routerParents.get(router) ?? []), proxy]);
+      });
+
+      expressRouter.use(...args);
       return this;
     },
 
+    // Express mounts anything exposing `handle` and `set` as a sub-application:
+    // `app.use(path, router)` assigns `mountpath` and emits 'mount' with the parent app,
+    // which is how a typed router learns where an app mounted it.
+    set() {
+      return this;
+    },
+
+    emit(event: string, parent: any) {
+      if (event === 'mount' && parent) {
+        const parentMounts = appMounts.get(parent) ?? [];
+        toMountPaths((expressRouter as any).mountpath).forEach((path) => {
+          parentMounts.push({ path, router: proxy });
+        });
+        appMounts.set(parent, parentMounts);
+      }
+      return true;
+    },
+
+    addHook<N extends HookName>(name: N, hook: HookOf<N>) {
+      hooks[name].push(hook);
+      return this;
+    },
+
+    getRoutesMetadata() {
+      return [...ownRoutes, ...prefixRoutes(mounts)];
+    },
+
     getRouter() {
       return expressRouter;
     },
+
+    // Express calls it for routers mounted with `app.use`, and the router's own function otherwise.
+    handle(req: Request, res: Response, next: NextFunction) {
+      return handle(req, res, next);
+    },
+  };
+
+  // Records the router on the request while it handles it, for `collectRouterHooks`.
+  const handle = (req: Request, res: Response, next: NextFunction) => {
+    const entered = requestRouters.get(req) ?? [];
+    requestRouters.set(req, [...entered, proxy]);
+    return (expressRouter as any).handle(req, res, (error?: unknown) => {
+      requestRouters.set(req, entered);
+      next(error as any);
+    });
   };
 
-  const callable = (...args: any[]) => {
-    return (expressRouter as any)(...args)
+  const callable = (req: Request, res: Response, next: NextFunction) => {
+    return handle(req, res, next)
   }
 
-  return new Proxy(callable, {
+  const proxy = new Proxy(callable, {
     get(_, prop) {
+      if (prop === TYPED_ROUTER) return true
       if (prop in typedRouter) return (typedRouter as any)[prop]
       return (expressRouter as any)[prop]
     },
-  }) as Router & TypedRouterMethods
+    set(_, prop, value) {
+      (expressRouter as any)[prop] = value
+      return true
+    },
+  }) as TypedRouter
+
+  routerHooks.set(proxy, hooks)
+  return proxy
 };
 
-export interface TypedRouterMethods {
-  get<T extends RouteSchema = RouteSchema>(
-    path: string,
+/**
+ * Route schemas keyed by `'<METHOD> <path>'`, accumulated in a typed router's type as
+ * routes are registered on it in a chain.
+ */
+export type RouteDefinitions = Record<string, RouteSchema>;
+
+export interface TypedRouterMethods<Routes extends RouteDefinitions = {}> {
+  /** Type-only carrier of the registered route map; never set at runtime. */
+  readonly '~routes'?: Routes;
+
+  get<T extends RouteSchema = RouteSchema, P extends string = string>(
+    path: P,
     options: RouteOptions<T>,
     handler: TypedRequestHandler<T>
-  ): TypedRouterMethods;
-  get<T extends RouteSchema = RouteSchema>(
-    path: string,
+  ): TypedRouter<Routes & { [K in `GET ${P}`]: T }>;
+  get<T extends RouteSchema = RouteSchema, P extends string = string, M extends RequestHandler[] = RequestHandler[]>(
+    path: P,
     options: RouteOptions<T>,
-    ...handlersAndMiddlewares: [...RequestHandler[], TypedRequestHandler<T>]
-  ): TypedRouterMethods;
+    ...handlersAndMiddlewares: [...M, TypedRequestHandler<T, MiddlewareContext<M>>]
+  ): TypedRouter<Routes & { [K in `GET ${P}`]: T }>;
 
-  post<T extends RouteSchema = RouteSchema>(
-    path: string,
+  post<T extends RouteSchema = RouteSchema, P extends string = string>(
+    path: P,
     options: RouteOptions<T>,
     handler: TypedRequestHandler<T>
-  ): TypedRouterMethods;
-  post<T extends RouteSchema = RouteSchema>(
-    path: string,
+  ): TypedRouter<Routes & { [K in `POST ${P}`]: T }>;
+  post<T extends RouteSchema = RouteSchema, P extends string = string, M extends RequestHandler[] = RequestHandler[]>(
+    path: P,
     options: RouteOptions<T>,
-    ...handlersAndMiddlewares: [...RequestHandler[], TypedRequestHandler<T>]
-  ): TypedRouterMethods;
+    ...handlersAndMiddlewares: [...M, TypedRequestHandler<T, MiddlewareContext<M>>]
+  ): TypedRouter<Routes & { [K in `POST ${P}`]: T }>;
 
-  put<T extends RouteSchema = RouteSchema>(
-    path: string,
+  put<T extends RouteSchema = RouteSchema, P extends string = string>(
+    path: P,
     options: RouteOptions<T>,
     handler: TypedRequestHandler<T>
-  ): TypedRouterMethods;
-  put<T extends RouteSchema = RouteSchema>(
-    path: string,
+  ): TypedRouter<Routes & { [K in `PUT ${P}`]: T }>;
+  put<T extends RouteSchema = RouteSchema, P extends string = string, M extends RequestHandler[] = RequestHandler[]>(
+    path: P,
     options: RouteOptions<T>,
-    ...handlersAndMiddlewares: [...RequestHandler[], TypedRequestHandler<T>]
-  ): TypedRouterMethods;
+    ...handlersAndMiddlewares: [...M, TypedRequestHandler<T, MiddlewareContext<M>>]
+  ): TypedRouter<Routes & { [K in `PUT ${P}`]: T }>;
 
-  delete<T extends RouteSchema = RouteSchema>(
-    path: string,
+  delete<T extends RouteSchema = RouteSchema, P extends string = string>(
+    path: P,
     options: RouteOptions<T>,
     handler: TypedRequestHandler<T>
-  ): TypedRouterMethods;
-  delete<T extends RouteSchema = RouteSchema>(
-    path: string,
+  ): TypedRouter<Routes & { [K in `DELETE ${P}`]: T }>;
+  delete<T extends RouteSchema = RouteSchema, P extends string = string, M extends RequestHandler[] = RequestHandler[]>(
+    path: P,
     options: RouteOptions<T>,
-    ...handlersAndMiddlewares: [...RequestHandler[], TypedRequestHandler<T>]
-  ): TypedRouterMethods;
+    ...handlersAndMiddlewares: [...M, TypedRequestHandler<T, MiddlewareContext<M>>]
+  ): TypedRouter<Routes & { [K in `DELETE ${P}`]: T }>;
 
-  patch<T extends RouteSchema = RouteSchema>(
-    path: string,
+  patch<T extends RouteSchema = RouteSchema, P extends string = string>(
+    path: P,
     options: RouteOptions<T>,
     handler: TypedRequestHandler<T>
-  ): TypedRouterMethods;
-  patch<T extends RouteSchema = RouteSchema>(
-    path: string,
+  ): TypedRouter<Routes & { [K in `PATCH ${P}`]: T }>;
+  patch<T extends RouteSchema = RouteSchema, P extends string = string, M extends RequestHandler[] = RequestHandler[]>(
+    path: P,
     options: RouteOptions<T>,
-    ...handlersAndMiddlewares: [...RequestHandler[], TypedRequestHandler<T>]
-  ): TypedRouterMethods;
+    ...handlersAndMiddlewares: [...M, TypedRequestHandler<T, MiddlewareContext<M>>]
+  ): TypedRouter<Routes & { [K in `PATCH ${P}`]: T }>;
+
+  /**
+   * A GET route streaming server-sent events. The handler sends events typed and validated by
+   * `schema.events`; the route is documented as a `text/event-stream` response.
+   */
+  sse<T extends SSERouteSchema, P extends string = string>(
+    path: P,
+    options: SSERouteOptions<T>,
+    handler: EventStreamHandler<T>
+  ): TypedRouter<Routes>;
+  sse<T extends SSERouteSchema, P extends string = string, M extends RequestHandler[] = RequestHandler[]>(
+    path: P,
+    options: SSERouteOptions<T>,
+    ...handlersAndMiddlewares: [...M, EventStreamHandler<T, MiddlewareContext<M>>]
+  ): TypedRouter<Routes>;
+
+  /** Adds a hook to every route of this router, including routes registered before it. */
+  addHook<N extends HookName>(name: N, hook: HookOf<N>): TypedRouter<Routes>;
+
+  getRoutesMetadata(): RouteMetadata[];
 
   getRouter(): Router;
 }
 
+/**
+ * @deprecated Returns the routes of every typed router created in this process, without
+ * their mount paths. Use `router.getRoutesMetadata()` or pass a router or app to
+ * `generateOpenAPISpec` instead.
+ */
 export const getRoutesMetadata = () => routesMetadata;
 
 export const createSchema = <T extends RouteSchema>(schema: T): T => schema;
@@ -0,0 +1,346 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { getRouteErrorHandler } from './typed-router';
+import type { ContentExamples, Examples, ResponseEntry } from './typed-router';
+import { z, ZodIssue, ZodType } from './zod';
+import { RequestValidationError, WebhookDeliveryError, WebhookSignatureError, WebhookValidationError } from './errors';
+
+export interface WebhookOptions<P extends ZodType<any> = ZodType<any>, H extends ZodType<any> | undefined = undefined> {
+  payload: P;
+  /** Object schema of the headers sent with the payload, keyed by header name. */
+  headers?: H;
+  /** Responses expected from the receiver. Defaults to a 200 without body. */
+  responses?: Record<number, ResponseEntry>;
+  /** Examples of the payload, or of each of its media types. */
+  examples?: Examples | ContentExamples;
+  method?: 'post' | 'put' | 'patch';
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  operationId?: string;
+  /** Options of the dispatcher sending it, when its headers aren't the default ones, to document them. */
+  delivery?: WebhookDeliveryOptions;
+}
+
+export interface WebhookDefinition<P extends ZodType<any> = ZodType<any>, H extends ZodType<any> | undefined = any>
+  extends WebhookOptions<P, H> {
+  name: string;
+}
+
+/**
+ * Declares an outbound webhook. Pass it to `generateOpenAPISpec` through `config.webhooks` to
+ * document it, and to a dispatcher to send it.
+ */
+export const defineWebhook = <P extends ZodType<any>, H extends ZodType<any> | undefined = undefined>(
+  name: string,
+  options: WebhookOptions<P, H>
+): WebhookDefinition<P, H> => {
+  return { name, ...options };
+};
+
+/** How a payload is signed: an HMAC of `<timestamp>.<body>`, or of the body alone without timestamp. */
+export interface WebhookSignatureOptions {
+  /** HMAC digest algorithm. Defaults to `sha256`. */
+  algorithm?: string;
+  /** Defaults to `hex`. */
+  encoding?: 'hex' | 'base64';
+  /** Defaults to `x-webhook-signature`. */
+  signatureHeader?: string;
+  /** Prepended to the digest in the signature header. Defaults to `v1=`. */
+  signaturePrefix?: string;
+  /** Header with the Unix time (seconds) of the signature, or false to sign the body alone. Defaults to `x-webhook-timestamp`. */
+  timestampHeader?: string | false;
+}
+
+const signatureDefaults: Required<WebhookSignatureOptions> = {
+  algorithm: 'sha256',
+  encoding: 'hex',
+  signatureHeader: 'x-webhook-signature',
+  signaturePrefix: 'v1=',
+  timestampHeader: 'x-webhook-timestamp',
+};
+
+/** Options of the headers a dispatcher adds to every request. */
+export interface WebhookDeliveryOptions extends WebhookSignatureOptions {
+  /** Header with the delivery id, the same across retries. Defaults to `x-webhook-id`. */
+  idHeader?: string;
+}
+
+/** The headers a dispatcher sends with every request, with what they carry. */
+export const deliveryHeaders = (options: WebhookDeliveryOptions = {}) => {
+  const { algorithm, encoding, signatureHeader, signaturePrefix, timestampHeader } = { ...signatureDefaults, ...options };
+  const signed = timestampHeader ? '`<timestamp>.<body>`' : 'the body';
+  return [
+    {
+      name: signatureHeader,
+      description: `${signaturePrefix ? `\`${signaturePrefix}\` followed by the` : 'The'} ${encoding} HMAC-${algorithm.toUpperCase()} of ${signed}.`,
+    },
+    ...(timestampHeader ? [{ name: timestampHeader, description: 'Unix time (seconds) of the signature.' }] : []),
+    { name: options.idHeader ?? 'x-webhook-id', description: 'Delivery id, the same across retries.' },
+  ];
+};
+
+const sign = (body: string | Buffer, secret: string, timestamp: string | undefined, options: Required<WebhookSignatureOptions>) => {
+  const hmac = createHmac(options.algorithm, secret);
+  if (timestamp !== undefined) hmac.update(`${timestamp}.`);
+  return `${options.signaturePrefix}${hmac.update(body).digest(options.encoding)}`;
+};
+
+export interface WebhookRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string;
+  /** Aborted when the attempt times out. */
+  signal: AbortSignal;
+}
+
+export interface WebhookTransportResponse {
+  status: number;
+  body?: string;
+}
+
+/** Delivers a signed webhook request; rejecting counts as a failed attempt. */
+export type WebhookTransport = (request: WebhookRequest) => Promise<WebhookTransportResponse>;
+
+export const fetchTransport: WebhookTransport = async ({ url, method, headers, body, signal }) => {
+  const response = await fetch(url, { method, headers, body, signal });
+  return { status: response.status, body: await response.text() };
+};
+
+export interface WebhookDispatcherOptions extends WebhookDeliveryOptions {
+  secret: string;
+  /** Defaults to `fetchTransport`. */
+  transport?: WebhookTransport;
+  /** Attempts after the first one. Defaults to 3. */
+  retries?: number;
+  /** Delay before retry `n` (from 1), in milliseconds. Defaults to 1s, 2s, 4s... up to a minute. */
+  backoff?: (retry: number) => number;
+  /** Time limit of each attempt, in milliseconds. Defaults to 10 seconds. */
+  timeout?: number;
+}
+
+export interface SendWebhookOptions<H> {
+  headers?: H;
+  /** Delivery id; generated when omitted. */
+  id?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  status: number;
+  attempts: number;
+  body?: string;
+}
+
+type WebhookHeaders<W extends WebhookDefinition> = W['headers'] extends ZodType<any>
+  ? z.input<W['headers']>
+  : Record<string, string>;
+
+export interface WebhookDispatcher {
+  /**
+   * Validates the payload and headers, signs them and delivers them to `url`, retrying network
+   * errors, timeouts, 408, 429 and 5xx answers. Rejects with a `WebhookValidationError` before
+   * sending, or a `WebhookDeliveryError` once the attempts are used up.
+   */
+  send<W extends WebhookDefinition>(
+    webhook: W,
+    url: string,
+    payload: z.input<W['payload']>,
+    options?: SendWebhookOptions<WebhookHeaders<W>>
+  ): Promise<WebhookDelivery>;
+}
+
+const defaultBackoff = (retry: number) => Math.min(1000 * 2 ** (retry - 1), 60_000);
+
+const isRetryable = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const validateWebhook = (webhook: WebhookDefinition, payload: unknown, headers: unknown) => {
+  const issues: ZodIssue[] = [];
+  const payloadResult = webhook.payload.safeParse(payload);
+  if (!payloadResult.success) {
+    issues.push(...payloadResult.error.issues.map((issue) => ({ ...issue, path: ['payload', ...issue.path] })));
+  }
+
+  let headerValues: Record<string, unknown> = (headers ?? {}) as Record<string, unknown>;
+  const headersSchema: ZodType<any> | undefined = webhook.headers;
+  if (headersSchema) {
+    const headersResult = headersSchema.safeParse(headers ?? {});
+    if (headersResult.success) {
+      headerValues = headersResult.data;
+    } else {
+      issues.push(...headersResult.error.issues.map((issue) => ({ ...issue, path: ['headers', ...issue.path] })));
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new WebhookValidationError(webhook.name, new z.ZodError(issues));
+  }
+  return { payload: payloadResult.data, headers: headerValues };
+};
+
+export const createWebhookDispatcher = (options: WebhookDispatcherOptions): WebhookDispatcher => {
+  const signing = { ...signatureDefaults, ...options };
+  const {
+    secret,
+    transport = fetchTransport,
+    retries = 3,
+    backoff = defaultBackoff,
+    timeout = 10_000,
+    idHeader = 'x-webhook-id',
+  } = options;
+
+  return {
+    async send(webhook, url, payload, { headers, id = randomUUID() } = {}) {
+      const validated = validateWebhook(webhook, payload, headers);
+      const body = JSON.stringify(validated.payload);
+      const customHeaders = Object.fromEntries(
+        Object.entries(validated.headers)
+          .filter(([, value]) => value !== undefined)
+          .map(([name, value]) => [name.toLowerCase(), String(value)])
+      );
+
+      let lastStatus: number | undefined;
+      let lastError: unknown;
+      for (let attempt = 1; attempt <= retries + 1; attempt++) {
+        if (attempt > 1) await delay(backoff(attempt - 1));
+
+        // Signed per attempt, so retries carry a fresh timestamp.
+        const timestamp = signing.timestampHeader ? String(Math.floor(Date.now() / 1000)) : undefined;
+        const requestHeaders: Record<string, string> = {
+          ...customHeaders,
+          'content-type': 'application/json',
+          [idHeader]: id,
+          [signing.signatureHeader]: sign(body, secret, timestamp, signing),
+          ...(signing.timestampHeader && { [signing.timestampHeader]: timestamp! }),
+        };
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeout);
+        try {
+          const response = await transport({
+            url,
+            method: (webhook.method ?? 'post').toUpperCase(),
+            headers: requestHeaders,
+            body,
+            signal: controller.signal,
+          });
+          if (response.status >= 200 && response.status < 300) {
+            return { id, status: response.status, attempts: attempt, body: response.body };
+          }
+
+          lastStatus = response.status;
+          lastError = undefined;
+          if (!isRetryable(response.status)) {
+            throw new WebhookDeliveryError(webhook.name, url, attempt, lastStatus);
+          }
+        } catch (error) {
+          if (error instanceof WebhookDeliveryError) throw error;
+          lastStatus = undefined;
+          lastError = error;
+        } finally {
+          clearTimeout(timer);
+        }
+      }
+
+      throw new WebhookDeliveryError(webhook.name, url, retries + 1, lastStatus, lastError);
+    },
+  };
+};
+
+/** `verify` option of `express.json()` keeping the raw body, so its signature can be checked later. */
+export const captureRawBody = (req: IncomingMessage, res: ServerResponse, buffer: Buffer) => {
+  (req as any).rawBody = buffer;
+};
+
+const readStream = (req: Request) => {
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+};
+
+/** The raw body, and whether `req.body` still needs parsing from it. */
+const readRawBody = async (req: Request): Promise<{ raw: Buffer; unparsed: boolean }> => {
+  if (Buffer.isBuffer((req as any).rawBody)) return { raw: (req as any).rawBody, unparsed: false };
+  if (Buffer.isBuffer(req.body)) return { raw: req.body, unparsed: true };
+  if (typeof req.body === 'string') return { raw: Buffer.from(req.body), unparsed: false };
+
+  if (req.body !== undefined || req.readableEnded) {
+    throw new Error(
+      'The request body was parsed before its webhook signature could be verified; ' +
+      'pass `verify: captureRawBody` to express.json().'
+    );
+  }
+  return { raw: await readStream(req), unparsed: true };
+};
+
+export interface VerifyWebhookOptions extends WebhookSignatureOptions {
+  /** Accepted secrets; several while rotating them. */
+  secret: string | string[];
+  /** Maximum age of the signature timestamp, in seconds. Defaults to 300. */
+  tolerance?: number;
+}
+
+/**
+ * Rejects requests whose signature header does not match an HMAC of the raw body, or whose
+ * timestamp is outside the tolerance, with a `WebhookSignatureError` answered by the route's
+ * error handler. Signatures from
+ * `createWebhookDispatcher` verify with the same options; for third-party webhooks set the
+ * header names, prefix and encoding they use.
+ *
+ * The raw body comes from `captureRawBody`, `express.raw()`, or the request stream when no
+ * parser ran; JSON bodies read here are parsed into `req.body` for the route's validation, and
+ * rejected with a body `RequestValidationError` when they aren't valid JSON.
+ */
+export const verifyWebhookSignature = (options: VerifyWebhookOptions): RequestHandler => {
+  const signing = { ...signatureDefaults, ...options };
+  const secrets = Array.isArray(options.secret) ? options.secret : [options.secret];
+  const tolerance = options.tolerance ?? 300;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { raw, unparsed } = await readRawBody(req);
+
+      const reject = (error: Error) => getRouteErrorHandler(req)(error, req, res, next);
+
+      const header = req.get(signing.signatureHeader);
+      const timestamp = signing.timestampHeader ? req.get(signing.timestampHeader) : undefined;
+      if (!header || (signing.timestampHeader && !timestamp)) return reject(new WebhookSignatureError('missing', req));
+
+      if (timestamp !== undefined) {
+        const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+        if (!Number.isFinite(age) || age > tolerance) return reject(new WebhookSignatureError('expired', req));
+      }
+
+      // The header may carry several signatures, e.g. while the sender rotates secrets.
+      const received = header.split(/[\s,]+/).filter(Boolean).map((signature) => Buffer.from(signature));
+      const valid = secrets.some((secret) => {
+        const expected = Buffer.from(sign(raw, secret, timestamp, signing));
+        return received.some((signature) => signature.length === expected.length && timingSafeEqual(signature, expected));
+      });
+      if (!valid) return reject(new WebhookSignatureError('mismatch', req));
+
+      if (unparsed) {
+        if (raw.length === 0 || !req.is('json')) {
+          req.body = raw;
+        } else {
+          try {
+            req.body = JSON.parse(raw.toString('utf8'));
+          } catch {
+            const issue = { code: 'custom', path: [], message: 'Invalid JSON' } as ZodIssue;
+            return reject(new RequestValidationError('body', new z.ZodError([issue] as any), req));
+          }
+        }
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
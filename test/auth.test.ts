@@ -0,0 +1,164 @@
+import express from 'express';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CreateTypedRouter, setAuthenticators, z } from '../src';
+import { withServer } from './helpers';
+
+const createApp = (security: Array<Record<string, string[]>>) => {
+  const router = CreateTypedRouter();
+  router.get('/me', { schema: { security, response: { 200: z.object({ auth: z.any() }) } } }, (req, res) => {
+    res.json({ auth: (req as any).auth ?? null });
+  });
+
+  const app = express();
+  app.use(router);
+  return app;
+};
+
+const get = async (app: express.Express, headers: Record<string, string> = {}, query = '') => {
+  return withServer(app, async (baseUrl) => {
+    const response = await fetch(`${baseUrl}/me${query}`, { headers });
+    return { status: response.status, challenge: response.headers.get('www-authenticate'), body: await response.json() as any };
+  });
+};
+
+const users: Record<string, { id: string; scopes: string[] }> = {
+  'reader-token': { id: 'reader', scopes: ['users:read'] },
+  'admin-token': { id: 'admin', scopes: ['users:read', 'users:write'] },
+};
+
+const registerAuthenticators = () => {
+  setAuthenticators({
+    bearerAuth: { type: 'http', scheme: 'bearer', authenticate: (token) => users[token] },
+    oauth: {
+      type: 'oauth2',
+      flows: { clientCredentials: { tokenUrl: 'https://auth.example.com/token', scopes: {} } },
+      authenticate: (token) => users[token],
+    },
+    basicAuth: {
+      type: 'http',
+      scheme: 'basic',
+      authenticate: ({ username, password }) => password === 'secret' && { id: username },
+    },
+    apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key', authenticate: (key) => key === 'key-1' && { client: 'ci' } },
+  });
+};
+
+afterEach(() => {
+  setAuthenticators({});
+  vi.restoreAllMocks();
+});
+
+describe('authentication', () => {
+  it('only documents security when no authenticator is registered', async () => {
+    const { status, body } = await get(createApp([{ bearerAuth: [] }]));
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ auth: null });
+  });
+
+  it('answers 401 with a challenge without credentials, and sets req.auth with them', async () => {
+    registerAuthenticators();
+    const app = createApp([{ bearerAuth: [] }]);
+
+    const rejected = await get(app);
+    expect(rejected.status).toBe(401);
+    expect(rejected.challenge).toBe('Bearer');
+
+    const accepted = await get(app, { authorization: 'Bearer reader-token' });
+    expect(accepted.status).toBe(200);
+    expect(accepted.body.auth).toEqual({ bearerAuth: users['reader-token'] });
+  });
+
+  it('answers 403 when the scopes are not granted', async () => {
+    registerAuthenticators();
+    const app = createApp([{ oauth: ['users:write'] }]);
+
+    expect((await get(app, { authorization: 'Bearer reader-token' })).status).toBe(403);
+    expect((await get(app, { authorization: 'Bearer admin-token' })).status).toBe(200);
+  });
+
+  it('leaves schemes without an authenticator out of the check, warning once', async () => {
+    registerAuthenticators();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const app = createApp([{ bearerAuth: [] }, { partnerKey: [] }]);
+
+    expect((await get(app)).status).toBe(401);
+    expect((await get(app)).status).toBe(401);
+    expect((await get(app, { authorization: 'Bearer reader-token' })).status).toBe(200);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toMatch(/^\[express-zod-openapi\] .*"partnerKey"/);
+  });
+
+  it('decodes basic credentials', async () => {
+    registerAuthenticators();
+    const app = createApp([{ basicAuth: [] }]);
+    const basic = (credentials: string) => ({ authorization: `Basic ${Buffer.from(credentials).toString('base64')}` });
+
+    const missing = await get(app);
+    expect(missing.status).toBe(401);
+    expect(missing.challenge).toBe('Basic');
+    expect((await get(app, basic('jane:wrong'))).status).toBe(401);
+    expect((await get(app, basic('jane'))).status).toBe(401);
+
+    const accepted = await get(app, basic('jane:secret'));
+    expect(accepted.status).toBe(200);
+    expect(accepted.body.auth).toEqual({ basicAuth: { id: 'jane' } });
+  });
+
+  it.each([
+    ['header', {}, { 'x-api-key': 'key-1' }, ''],
+    ['query', { name: 'api_key' }, {}, '?api_key=key-1'],
+    ['cookie', { name: 'api_key' }, { cookie: 'theme=dark; api_key=key-1' }, ''],
+  ] as const)('reads API keys from the %s', async (location, scheme, headers, query) => {
+    setAuthenticators({
+      apiKey: {
+        type: 'apiKey',
+        in: location,
+        name: 'X-API-Key',
+        ...scheme,
+        authenticate: (key) => key === 'key-1' && { client: 'ci' },
+      },
+    });
+    const app = createApp([{ apiKey: [] }]);
+
+    const missing = await get(app);
+    expect(missing.status).toBe(401);
+    expect(missing.challenge).toBeNull();
+
+    const accepted = await get(app, headers, query);
+    expect(accepted.status).toBe(200);
+    expect(accepted.body.auth).toEqual({ apiKey: { client: 'ci' } });
+  });
+
+  it('accepts any one entry of the requirement', async () => {
+    registerAuthenticators();
+    const app = createApp([{ bearerAuth: [] }, { apiKey: [] }]);
+
+    expect((await get(app, { authorization: 'Bearer reader-token' })).body.auth).toEqual({ bearerAuth: users['reader-token'] });
+    expect((await get(app, { 'x-api-key': 'key-1' })).body.auth).toEqual({ apiKey: { client: 'ci' } });
+    expect((await get(app, { 'x-api-key': 'wrong' })).status).toBe(401);
+  });
+
+  it('requires every scheme of an entry', async () => {
+    registerAuthenticators();
+    const app = createApp([{ bearerAuth: [], apiKey: [] }]);
+
+    expect((await get(app, { authorization: 'Bearer reader-token' })).status).toBe(401);
+    expect((await get(app, { 'x-api-key': 'key-1' })).status).toBe(401);
+
+    const accepted = await get(app, { authorization: 'Bearer reader-token', 'x-api-key': 'key-1' });
+    expect(accepted.status).toBe(200);
+    expect(accepted.body.auth).toEqual({ bearerAuth: users['reader-token'], apiKey: { client: 'ci' } });
+  });
+
+  it('makes authentication optional with an empty entry', async () => {
+    registerAuthenticators();
+    const app = createApp([{ bearerAuth: [] }, {}]);
+
+    const anonymous = await get(app);
+    expect(anonymous.status).toBe(200);
+    expect(anonymous.body.auth).toEqual({});
+    expect((await get(app, { authorization: 'Bearer unknown-token' })).body.auth).toEqual({});
+    expect((await get(app, { authorization: 'Bearer reader-token' })).body.auth).toEqual({ bearerAuth: users['reader-token'] });
+  });
+});
@@ -0,0 +1,69 @@
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { stringify } from 'yaml';
+import { CreateTypedRouter, generateOpenAPISpec, z } from '../src';
+import { runDiff } from '../src/cli/diff';
+import { withTempDir } from './helpers';
+
+const specOf = (response: z.ZodType<any>) => {
+  const router = CreateTypedRouter();
+  router.get('/users', { schema: { response: { 200: response } } }, (req, res) => {
+    res.json([]);
+  });
+  return generateOpenAPISpec({ info: { title: 'Users', version: '1.0.0' } }, router);
+};
+
+/** Writes the document before as JSON and the one after as YAML, the formats the command reads. */
+const writeDocuments = (directory: string, after: z.ZodType<any>) => {
+  const beforePath = path.join(directory, 'before.json');
+  const afterPath = path.join(directory, 'after.yaml');
+  writeFileSync(beforePath, JSON.stringify(specOf(z.object({ id: z.string(), email: z.string() }))));
+  writeFileSync(afterPath, stringify(specOf(after)));
+  return [beforePath, afterPath];
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('diff command', () => {
+  it('prints the changes and exits with 1 on breaking changes', async () => {
+    await withTempDir((directory) => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      expect(runDiff(writeDocuments(directory, z.object({ id: z.string() })))).toBe(1);
+      expect(String(log.mock.calls[0][0])).toMatch(/^Breaking changes \(1\):/);
+      expect(String(log.mock.calls[0][0])).toContain('email');
+    });
+  });
+
+  it('exits with 0 on non-breaking changes unless --fail-on any', async () => {
+    await withTempDir((directory) => {
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      const documents = writeDocuments(directory, z.object({ id: z.string(), email: z.string(), name: z.string() }));
+
+      expect(runDiff(documents)).toBe(0);
+      expect(runDiff([...documents, '--fail-on', 'any'])).toBe(1);
+    });
+  });
+
+  it('prints the diff as JSON with --format json', async () => {
+    await withTempDir((directory) => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      expect(runDiff([...writeDocuments(directory, z.object({ id: z.string() })), '--format', 'json', '--fail-on', 'none'])).toBe(0);
+      expect(JSON.parse(String(log.mock.calls[0][0]))).toMatchObject({
+        hasBreakingChanges: true,
+        breaking: [{ kind: 'property-removed', operation: 'GET /users' }],
+      });
+    });
+  });
+
+  it('prints the usage and exits with 2 on invalid arguments', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(runDiff(['only-one.json'])).toBe(2);
+    expect(String(error.mock.calls[0][0])).toMatch(/^Usage: express-zod-openapi diff/);
+  });
+});
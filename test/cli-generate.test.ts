@@ -0,0 +1,115 @@
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { parse } from 'yaml';
+import * as library from '../src';
+import { runGenerate } from '../src/cli/generate';
+import { withTempDir } from './helpers';
+
+/** Entries get the library through a global, so they register their routes where the command reads them. */
+beforeAll(() => {
+  (globalThis as any).expressZodOpenAPI = library;
+});
+
+afterAll(() => {
+  delete (globalThis as any).expressZodOpenAPI;
+});
+
+/** An entry module mounting a users router under `/api`, ending with `exports`. */
+const writeEntry = (directory: string, exports = 'module.exports = { app };') => {
+  const entry = path.join(directory, 'entry.js');
+  writeFileSync(entry, `
+const express = require('express');
+const { CreateTypedRouter, z } = globalThis.expressZodOpenAPI;
+
+const router = CreateTypedRouter();
+router.get('/users/:id', {
+  schema: {
+    params: z.object({ id: z.string() }),
+    response: { 200: z.object({ id: z.string(), name: z.string() }) },
+  },
+}, (req, res) => {
+  res.json({ id: req.params.id, name: 'Jane' });
+});
+
+const app = express();
+app.use('/api', router);
+${exports}
+`);
+  return entry;
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('generate command', () => {
+  it('writes the document of the app the entry exports, with its mount paths', async () => {
+    await withTempDir((directory) => {
+      const out = path.join(directory, 'openapi.json');
+      const config = path.join(directory, 'config.yaml');
+      writeFileSync(config, 'info:\n  title: Users\n  version: 2.0.0\n');
+
+      expect(runGenerate(['--entry', writeEntry(directory), '--export', 'app', '--config', config, '--out', out])).toBe(0);
+
+      const spec = JSON.parse(readFileSync(out, 'utf8'));
+      expect(spec.info).toEqual({ title: 'Users', version: '2.0.0' });
+      expect(Object.keys(spec.paths)).toEqual(['/api/users/{id}']);
+      expect(spec.paths['/api/users/{id}'].get.responses['200']).toBeDefined();
+    });
+  });
+
+  it.each([
+    ['the app export', 'module.exports = { app };', '/api/users/{id}'],
+    ['the default export', 'exports.default = app;', '/api/users/{id}'],
+    ['the router export', 'module.exports = { router };', '/users/{id}'],
+    ['the module itself', 'module.exports = app;', '/api/users/{id}'],
+  ])('documents %s without --export', async (_, exports, documentedPath) => {
+    await withTempDir((directory) => {
+      const out = path.join(directory, 'openapi.json');
+
+      expect(runGenerate(['--entry', writeEntry(directory, exports), '--out', out])).toBe(0);
+      expect(Object.keys(JSON.parse(readFileSync(out, 'utf8')).paths)).toEqual([documentedPath]);
+    });
+  });
+
+  it('asks for --export when the entry exports no app or router', async () => {
+    await withTempDir((directory) => {
+      const entry = writeEntry(directory, 'module.exports = { port: 3000 };');
+
+      expect(() => runGenerate(['--entry', entry])).toThrow('name the export to document with --export');
+      expect(() => runGenerate(['--entry', entry, '--export', 'server'])).toThrow('no router or app export named "server"');
+    });
+  });
+
+  it('prints YAML to stdout without --out', async () => {
+    await withTempDir((directory) => {
+      const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      expect(runGenerate(['--entry', writeEntry(directory), '--base-path', '/v1'])).toBe(0);
+
+      const spec = parse(String(write.mock.calls[0][0]));
+      expect(Object.keys(spec.paths)).toEqual(['/v1/api/users/{id}']);
+    });
+  });
+
+  it('exits with 1 under --check when the written document is out of date', async () => {
+    await withTempDir((directory) => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const entry = writeEntry(directory);
+      const out = path.join(directory, 'openapi.yaml');
+
+      expect(runGenerate(['--entry', entry, '--out', out])).toBe(0);
+      expect(runGenerate(['--entry', entry, '--out', out, '--check'])).toBe(0);
+
+      writeFileSync(out, readFileSync(out, 'utf8').replace('/users/{id}', '/people/{id}'));
+      expect(runGenerate(['--entry', entry, '--out', out, '--check'])).toBe(1);
+    });
+  });
+
+  it('rejects missing options with the usage', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(runGenerate([])).toBe(2);
+    expect(runGenerate(['--entry', 'app.js', '--check'])).toBe(2);
+  });
+});
@@ -0,0 +1,45 @@
+import { copyFileSync, readFileSync } from 'fs';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { runImport } from '../src/cli/import';
+import { withTempDir } from './helpers';
+
+const fixture = path.join(__dirname, 'fixtures/legacy-pets.yaml');
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('import command', () => {
+  it('writes the routes generated from a YAML document', async () => {
+    await withTempDir(async (directory) => {
+      const document = path.join(directory, 'openapi.yml');
+      const out = path.join(directory, 'routes.ts');
+      copyFileSync(fixture, document);
+
+      expect(runImport([document, '--out', out, '--router-name', 'petsRouter', '--import-from', path.resolve(__dirname, '../src')])).toBe(0);
+
+      const source = readFileSync(out, 'utf8');
+      expect(source).toMatch(/^\/\/ Not imported:\n/);
+      expect(source).toContain('export const petsRouter = CreateTypedRouter();');
+
+      const { PetSchema, petsRouter } = await import(out);
+      expect(PetSchema.safeParse({ kind: 'cat', name: null, lives: 3 }).success).toBe(true);
+      expect(typeof petsRouter).toBe('function');
+    });
+  });
+
+  it('prints the source to stdout without --out', () => {
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    expect(runImport([fixture])).toBe(0);
+    expect(String(write.mock.calls[0][0])).toContain('import { CreateTypedRouter, registerSchema, z } from "express-zod-openapi-typed";');
+  });
+
+  it('prints the usage and exits with 2 without a document', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(runImport([])).toBe(2);
+    expect(String(error.mock.calls[0][0])).toMatch(/^Usage: express-zod-openapi import/);
+  });
+});
@@ -0,0 +1,84 @@
+import express from 'express';
+import { describe, expect, it, vi } from 'vitest';
+import { createClient, CreateTypedRouter, z } from '../src';
+import { withServer } from './helpers';
+
+const router = CreateTypedRouter()
+  .get('/users/:id', {
+    schema: {
+      params: z.object({ id: z.string() }),
+      query: z.object({ fields: z.array(z.string()).optional() }),
+      response: { 200: z.object({ id: z.string(), fields: z.array(z.string()) }), 404: z.object({ message: z.string() }) },
+    },
+  }, (req, res) => {
+    if (req.params.id === 'missing') {
+      return res.status(404).json({ message: 'Not found' });
+    }
+    res.status(200).json({ id: req.params.id, fields: req.query.fields ?? [] });
+  })
+  .post('/users', {
+    schema: {
+      body: z.object({ name: z.string() }),
+      response: { 201: z.object({ name: z.string() }) },
+    },
+  }, (req, res) => {
+    res.status(201).json({ name: req.body.name });
+  });
+
+describe('createClient', () => {
+  it('builds URLs from path parameters and repeated query keys', async () => {
+    const fetch = vi.fn(async () => new Response('{"id":"1","fields":[]}', {
+      headers: { 'content-type': 'application/json' },
+    }));
+    const client = createClient<typeof router>('https://api.example.com/', { fetch, headers: { authorization: 'Bearer t' } });
+
+    await client.get('/users/:id', { params: { id: 'a b' }, query: { fields: ['name', 'email'] } });
+
+    expect(fetch).toHaveBeenCalledWith('https://api.example.com/users/a%20b?fields=name&fields=email', expect.objectContaining({
+      method: 'GET',
+      headers: { authorization: 'Bearer t' },
+    }));
+  });
+
+  it('merges the headers of init, with per-call headers taking precedence', async () => {
+    const fetch = vi.fn(async () => new Response('{"id":"1","fields":[]}', {
+      headers: { 'content-type': 'application/json' },
+    }));
+    const client = createClient<typeof router>('https://api.example.com', { fetch, headers: { authorization: 'Bearer t' } });
+
+    await client.get('/users/:id', {
+      params: { id: '1' },
+      headers: { 'x-request-id': 'call' } as any,
+      init: { headers: { 'x-trace': 'abc', 'x-request-id': 'init' }, cache: 'no-store' },
+    });
+
+    expect(fetch).toHaveBeenCalledWith('https://api.example.com/users/1', expect.objectContaining({
+      cache: 'no-store',
+      headers: { authorization: 'Bearer t', 'x-trace': 'abc', 'x-request-id': 'call' },
+    }));
+  });
+
+  it('sends JSON bodies and narrows responses by status', async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(router);
+
+    await withServer(app, async (baseUrl) => {
+      const client = createClient<typeof router>(baseUrl);
+
+      const created = await client.post('/users', { body: { name: 'Jane' } });
+      expect(created).toMatchObject({ status: 201, ok: true, data: { name: 'Jane' } });
+
+      const missing = await client.get('/users/:id', { params: { id: 'missing' } });
+      expect(missing.status).toBe(404);
+      if (missing.status === 404) {
+        expect(missing.data.message).toBe('Not found');
+      }
+    });
+  });
+
+  it('throws on a missing path parameter', async () => {
+    const client = createClient<typeof router>('https://api.example.com', { fetch: vi.fn() });
+    await expect(client.get('/users/:id', { params: {} as { id: string } })).rejects.toThrow('Missing path parameter "id"');
+  });
+});
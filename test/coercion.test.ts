@@ -0,0 +1,53 @@
+import express from 'express';
+import { describe, expect, it } from 'vitest';
+import { CreateTypedRouter, z } from '../src';
+import { withServer } from './helpers';
+
+const createApp = (coerce: boolean) => {
+  const router = CreateTypedRouter();
+  router.get('/items/:id', {
+    schema: {
+      params: z.object({ id: z.number().int() }),
+      query: z.object({
+        page: z.number().default(1),
+        active: z.boolean().optional(),
+        tags: z.array(z.string()).optional(),
+      }),
+      headers: z.object({ 'x-limit': z.number().max(100).optional() }),
+    },
+    coerce,
+  }, (req, res) => {
+    res.json({ params: req.params, query: req.query, limit: req.headers['x-limit'] });
+  });
+
+  const app = express();
+  app.use(router);
+  return app;
+};
+
+describe('parameter coercion', () => {
+  it('converts path, query and header strings to the types of their schemas', async () => {
+    await withServer(createApp(true), async (baseUrl) => {
+      const response = await fetch(`${baseUrl}/items/42?page=3&active=false&tags=a`, { headers: { 'x-limit': '10' } });
+      expect(await response.json()).toEqual({
+        params: { id: 42 },
+        query: { page: 3, active: false, tags: ['a'] },
+        limit: 10,
+      });
+    });
+  });
+
+  it('still rejects strings that do not convert', async () => {
+    await withServer(createApp(true), async (baseUrl) => {
+      expect((await fetch(`${baseUrl}/items/abc`)).status).toBe(400);
+      expect((await fetch(`${baseUrl}/items/1?active=maybe`)).status).toBe(400);
+      expect((await fetch(`${baseUrl}/items/1`, { headers: { 'x-limit': '500' } })).status).toBe(400);
+    });
+  });
+
+  it('leaves parameters as strings unless enabled', async () => {
+    await withServer(createApp(false), async (baseUrl) => {
+      expect((await fetch(`${baseUrl}/items/42`)).status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import express from 'express';
+import { Server } from 'http';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ContractTestError, CreateTypedRouter, assertContract, runContractTests, z } from '../src';
+
+const User = z.object({ id: z.string(), name: z.string().min(2), age: z.number().int().min(0) });
+
+const createApp = () => {
+  const router = CreateTypedRouter();
+  router.post('/users', { schema: { body: User, response: { 201: User } } }, (req, res) => {
+    res.status(201).json(req.body);
+  });
+  router.get('/users', {
+    schema: { query: z.object({ limit: z.coerce.number().int().max(50) }), response: { 200: z.array(User) } },
+  }, (req, res) => {
+    // Written in chunks, so the contract check reads a chunked body.
+    res.type('json');
+    res.write('[{"id":"1","name":"Al",');
+    res.end('"age":3}]');
+  });
+  router.get('/broken', { schema: { response: { 200: User } } }, (req, res) => {
+    res.status(200).send({ id: 1 } as any);
+  });
+
+  const app = express();
+  app.use(express.json());
+  app.use(router);
+  return app;
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('runContractTests', () => {
+  it('sends valid and invalid requests to the app without listening on a port', async () => {
+    const listen = vi.spyOn(Server.prototype, 'listen');
+    const report = await runContractTests(createApp(), { filter: (route) => route.path === '/users' });
+
+    expect(listen).not.toHaveBeenCalled();
+    expect(report.passed).toBe(true);
+    const post = report.routes.find((route) => route.route === 'POST /users')!;
+    expect(post.cases[0]).toMatchObject({ name: 'valid request', status: 201 });
+    expect(post.cases.map((contractCase) => contractCase.name)).toContain('body.age missing');
+    expect(post.cases.filter((contractCase) => contractCase.kind === 'invalid').every((contractCase) => contractCase.status === 400)).toBe(true);
+  });
+
+  it('reports responses that break their schema', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const report = await runContractTests(createApp(), { filter: (route) => route.path === '/broken' });
+
+    expect(report.passed).toBe(false);
+    expect(report.failures).toEqual([
+      expect.objectContaining({ route: 'GET /broken', case: 'valid request', status: 500 }),
+    ]);
+  });
+
+  it('throws a ContractTestError from assertContract', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await expect(assertContract(createApp())).rejects.toBeInstanceOf(ContractTestError);
+  });
+
+  it('rejects with the route name when a request is never answered', async () => {
+    const router = CreateTypedRouter();
+    router.get('/hanging', { schema: { response: { 200: User } } }, () => {
+      // Never answers.
+    });
+    const app = express();
+    app.use(router);
+
+    await expect(runContractTests(app, { timeout: 50 })).rejects.toThrow(
+      'GET /hanging (valid request) was not answered within 50ms'
+    );
+  });
+});
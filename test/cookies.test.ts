@@ -0,0 +1,48 @@
+import express from 'express';
+import { describe, expect, it } from 'vitest';
+import { CreateTypedRouter, generateOpenAPISpec, z } from '../src';
+import { parseCookies } from '../src/lib/parse-cookies';
+import { withServer } from './helpers';
+
+const createRouter = () => {
+  const router = CreateTypedRouter();
+  router.get('/session', {
+    schema: {
+      cookies: z.object({ session: z.string().min(8), theme: z.enum(['light', 'dark']).default('light') }),
+    },
+  }, (req, res) => {
+    res.json(req.cookies);
+  });
+  return router;
+};
+
+describe('cookies segment', () => {
+  it('parses and validates the Cookie header', async () => {
+    const app = express();
+    app.use(createRouter());
+
+    await withServer(app, async (baseUrl) => {
+      const valid = await fetch(`${baseUrl}/session`, { headers: { cookie: 'session=abcdefgh; other=1' } });
+      expect(await valid.json()).toEqual({ session: 'abcdefgh', theme: 'light' });
+
+      const invalid = await fetch(`${baseUrl}/session`, { headers: { cookie: 'session=short' } });
+      expect(invalid.status).toBe(400);
+      expect(((await invalid.json()) as any).message).toBe('Cookies validation failed.');
+    });
+  });
+
+  it('keeps cookies named like Object.prototype members', () => {
+    const cookies = parseCookies('constructor=a; toString=b; __proto__=c; toString=ignored');
+    expect(Object.entries(cookies)).toEqual([['constructor', 'a'], ['toString', 'b'], ['__proto__', 'c']]);
+  });
+
+  it('documents cookie parameters', () => {
+    const spec: any = generateOpenAPISpec({ info: { title: 'Test', version: '1.0.0' } }, createRouter());
+    const parameters = spec.paths['/session'].get.parameters;
+
+    expect(parameters.map(({ name, in: location, required }: any) => ({ name, in: location, required }))).toEqual([
+      { name: 'session', in: 'cookie', required: true },
+      { name: 'theme', in: 'cookie', required: false },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { CreateTypedRouter, ExampleValidationError, generateOpenAPISpec, z } from '../src';
+
+const info = { title: 'Test', version: '1.0.0' };
+
+const User = z.object({
+  id: z.string(),
+  role: z.enum(['admin', 'member']).default('member'),
+  age: z.string().transform(Number).pipe(z.number()),
+});
+
+describe('examples', () => {
+  it('gives each media type its own examples', () => {
+    const router = CreateTypedRouter();
+    router.get('/users', {
+      schema: {
+        response: {
+          200: {
+            body: { 'application/json': z.array(z.object({ id: z.string() })), 'text/csv': z.string() },
+            examples: {
+              'application/json': { one: { value: [{ id: '1' }] } },
+              'text/csv': { one: { value: 'id\n1' } },
+            },
+          },
+        },
+      },
+    }, (req, res) => {
+      res.json([]);
+    });
+
+    const spec: any = generateOpenAPISpec({ info }, router);
+    const content = spec.paths['/users'].get.responses['200'].content;
+
+    expect(content['application/json'].examples).toEqual({ one: { value: [{ id: '1' }] } });
+    expect(content['text/csv'].examples).toEqual({ one: { value: 'id\n1' } });
+  });
+
+  it('attaches examples not keyed by media type to the first one only', () => {
+    const router = CreateTypedRouter();
+    router.post('/users', {
+      schema: {
+        body: { 'application/json': z.object({ id: z.string() }), 'text/plain': z.string() },
+        examples: { body: { one: { value: { id: '1' } } } },
+      },
+    }, (req, res) => {
+      res.end();
+    });
+
+    const spec: any = generateOpenAPISpec({ info }, router);
+    const content = spec.paths['/users'].post.requestBody.content;
+
+    expect(content['application/json'].examples).toEqual({ one: { value: { id: '1' } } });
+    expect(content['text/plain'].examples).toBeUndefined();
+  });
+
+  it('checks request examples against the input and response examples against the output', () => {
+    const router = CreateTypedRouter();
+    router.post('/users', {
+      schema: {
+        body: User,
+        examples: { body: { alice: { value: { id: '1', age: '42' } } } },
+        response: {
+          201: { body: User, examples: { created: { value: { id: '1', role: 'member', age: 42 } } } },
+        },
+      },
+    }, (req, res) => {
+      res.status(201).json(req.body);
+    });
+
+    expect(() => generateOpenAPISpec({ info }, router)).not.toThrow();
+  });
+
+  it('rejects response examples shaped like the input', () => {
+    const router = CreateTypedRouter();
+    router.post('/users', {
+      schema: {
+        response: {
+          201: { body: User, examples: { created: { value: { id: '1', age: '42' } } } },
+        },
+      },
+    }, (req, res) => {
+      res.status(201).end();
+    });
+
+    let error: unknown;
+    try {
+      generateOpenAPISpec({ info }, router);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ExampleValidationError);
+    const paths = (error as ExampleValidationError).issues[0].validationError.issues.map((issue) => issue.path.join('.'));
+    expect(paths).toEqual(['role', 'age']);
+  });
+});
@@ -0,0 +1,27 @@
+import { createServer, RequestListener } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+/** Serves `app` on an ephemeral local port while `run` sends requests to its base URL. */
+export const withServer = async <T>(app: RequestListener, run: (baseUrl: string) => Promise<T>): Promise<T> => {
+  const server = createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  try {
+    return await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+};
+
+/** A temporary directory, removed once `run` settles. */
+export const withTempDir = async <T>(run: (directory: string) => T | Promise<T>): Promise<T> => {
+  const directory = mkdtempSync(path.join(tmpdir(), 'express-zod-openapi-'));
+  try {
+    return await run(directory);
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+};
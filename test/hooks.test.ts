@@ -0,0 +1,83 @@
+import express from 'express';
+import { describe, expect, it, vi } from 'vitest';
+import { CreateTypedRouter, z } from '../src';
+import { withServer } from './helpers';
+
+const waitFor = async (condition: () => boolean) => {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('lifecycle hooks', () => {
+  it('runs the hooks in order and lets onSend replace the payload', async () => {
+    const calls: string[] = [];
+    const router = CreateTypedRouter({
+      hooks: {
+        onRequest: () => { calls.push('onRequest'); },
+        preValidation: () => { calls.push('preValidation'); },
+        preHandler: () => { calls.push('preHandler'); },
+        onSend: (payload) => {
+          calls.push('onSend');
+          return { ...payload, sent: true };
+        },
+        onResponse: () => { calls.push('onResponse'); },
+      },
+    });
+    router.get('/items', { schema: { response: { 200: z.object({ ok: z.boolean() }).loose() } } }, (req, res) => {
+      calls.push('handler');
+      res.json({ ok: true });
+    });
+    const app = express();
+    app.use(router);
+
+    await withServer(app, async (baseUrl) => {
+      expect(await (await fetch(`${baseUrl}/items`)).json()).toEqual({ ok: true, sent: true });
+      await waitFor(() => calls.includes('onResponse'));
+    });
+    expect(calls).toEqual(['onRequest', 'preValidation', 'preHandler', 'handler', 'onSend', 'onResponse']);
+  });
+
+  it('runs the hooks of the parent a router was reached through only', async () => {
+    const calls: string[] = [];
+    const child = CreateTypedRouter();
+    child.get('/ping', { schema: {} }, (req, res) => {
+      res.json({ pong: true });
+    });
+    const first = CreateTypedRouter({ hooks: { onRequest: () => { calls.push('first'); } } });
+    const second = CreateTypedRouter({ hooks: { onRequest: () => { calls.push('second'); } } });
+    first.use('/first', child);
+    second.use('/second', child);
+    const app = express();
+    app.use(first);
+    app.use(second);
+
+    await withServer(app, async (baseUrl) => {
+      await fetch(`${baseUrl}/second/ping`);
+      expect(calls).toEqual(['second']);
+      await fetch(`${baseUrl}/first/ping`);
+      expect(calls).toEqual(['second', 'first']);
+    });
+  });
+
+  it('runs onResponse once when the client disconnects before the response', async () => {
+    const onResponse = vi.fn();
+    const router = CreateTypedRouter({ hooks: { onResponse } });
+    let reached = false;
+    router.get('/slow', { schema: {} }, () => {
+      reached = true;
+    });
+    const app = express();
+    app.use(router);
+
+    await withServer(app, async (baseUrl) => {
+      const controller = new AbortController();
+      const request = fetch(`${baseUrl}/slow`, { signal: controller.signal }).catch(() => undefined);
+      await waitFor(() => reached);
+      controller.abort();
+      await request;
+      await waitFor(() => onResponse.mock.calls.length > 0);
+    });
+    expect(onResponse).toHaveBeenCalledTimes(1);
+  });
+});
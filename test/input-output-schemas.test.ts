@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { CreateTypedRouter, generateOpenAPISpec, registerSchema, z } from '../src';
+
+const info = { title: 'Test', version: '1.0.0' };
+
+describe('input and output schemas', () => {
+  it('emits a named schema once per side when requests and responses differ', () => {
+    const User = registerSchema('User', z.object({
+      id: z.string(),
+      role: z.enum(['admin', 'member']).default('member'),
+      age: z.string().transform(Number).pipe(z.number()),
+    }));
+    const router = CreateTypedRouter();
+    router.post('/users', { schema: { body: User, response: { 201: User } } }, (req, res) => {
+      res.status(201).json(req.body);
+    });
+
+    const spec: any = generateOpenAPISpec({ info }, router);
+    const operation = spec.paths['/users'].post;
+    const { User: output, UserInput: input } = spec.components.schemas;
+
+    expect(operation.requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/UserInput' });
+    expect(operation.responses['201'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/User' });
+    expect(input.required).toEqual(['id', 'age']);
+    expect(input.properties.role.default).toBe('member');
+    expect(input.properties.age).toEqual({ type: 'string' });
+    expect(output.required).toEqual(['id', 'role', 'age']);
+    expect(output.properties.age).toEqual({ type: 'number' });
+  });
+
+  it('emits a single component when both sides are the same', () => {
+    const Tag = registerSchema('Tag', z.object({ label: z.string() }));
+    const router = CreateTypedRouter();
+    router.put('/tags', { schema: { body: Tag, response: { 200: Tag } } }, (req, res) => {
+      res.json(req.body);
+    });
+
+    const spec: any = generateOpenAPISpec({ info }, router);
+    expect(Object.keys(spec.components.schemas)).toEqual(['Tag']);
+  });
+
+  it('documents query defaults as optional parameters', () => {
+    const router = CreateTypedRouter();
+    router.get('/items', { schema: { query: z.object({ page: z.coerce.number().default(1) }) } }, (req, res) => {
+      res.json([]);
+    });
+
+    const spec: any = generateOpenAPISpec({ info }, router);
+    const [page] = spec.paths['/items'].get.parameters;
+    expect(page).toMatchObject({ name: 'page', in: 'query', required: false });
+  });
+});
@@ -0,0 +1,94 @@
+import express from 'express';
+import { describe, expect, it } from 'vitest';
+import { CreateTypedRouter, generateOpenAPISpec, z } from '../src';
+import { withServer } from './helpers';
+
+const createRouter = () => {
+  const router = CreateTypedRouter();
+  router.post('/notes', {
+    schema: {
+      body: {
+        'application/json': z.object({ text: z.string() }),
+        'application/x-www-form-urlencoded': z.object({ text: z.string().min(1) }),
+      },
+      response: {
+        201: {
+          'application/json': z.object({ text: z.string() }),
+          'text/plain': z.string(),
+        },
+      },
+    },
+  }, (req, res) => {
+    if (req.accepts(['application/json', 'text/plain']) === 'text/plain') {
+      return res.status(201).type('text/plain').send(req.body.text);
+    }
+    res.status(201).json({ text: req.body.text });
+  });
+  return router;
+};
+
+describe('media type maps', () => {
+  it('validates the body against the schema of its content type', async () => {
+    const app = express();
+    app.use(express.json(), express.urlencoded());
+    app.use(createRouter());
+
+    await withServer(app, async (baseUrl) => {
+      const json = await fetch(`${baseUrl}/notes`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ text: 'hello' }),
+      });
+      expect(await json.json()).toEqual({ text: 'hello' });
+
+      const form = await fetch(`${baseUrl}/notes`, {
+        method: 'POST',
+        headers: { accept: 'text/plain' },
+        body: new URLSearchParams({ text: 'hello' }),
+      });
+      expect(form.headers.get('content-type')).toContain('text/plain');
+      expect(await form.text()).toBe('hello');
+
+      const emptyForm = await fetch(`${baseUrl}/notes`, { method: 'POST', body: new URLSearchParams({ text: '' }) });
+      expect(emptyForm.status).toBe(400);
+
+      const xml = await fetch(`${baseUrl}/notes`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/xml' },
+        body: '<text>hello</text>',
+      });
+      expect(xml.status).toBe(415);
+    });
+  });
+
+  it('documents every media type', () => {
+    const spec: any = generateOpenAPISpec({ info: { title: 'Test', version: '1.0.0' } }, createRouter());
+    const operation = spec.paths['/notes'].post;
+
+    expect(Object.keys(operation.requestBody.content)).toEqual(['application/json', 'application/x-www-form-urlencoded']);
+    expect(operation.responses['201'].content['text/plain'].schema).toEqual({ type: 'string' });
+  });
+
+  it('documents uploads next to the other media types of a body map without multipart/form-data', () => {
+    const router = CreateTypedRouter();
+    router.post('/avatars', {
+      schema: {
+        body: { 'application/json': z.object({ url: z.string().url() }) },
+        files: { avatar: { required: true } },
+      },
+    }, (req, res) => {
+      res.end();
+    });
+
+    const spec: any = generateOpenAPISpec({ info: { title: 'Test', version: '1.0.0' } }, router);
+    const { content } = spec.paths['/avatars'].post.requestBody;
+
+    expect(Object.keys(content)).toEqual(['application/json', 'multipart/form-data']);
+    expect(content['application/json'].schema.properties.url).toEqual({ type: 'string', format: 'uri' });
+    expect(content['multipart/form-data'].schema).toEqual({
+      type: 'object',
+      properties: { avatar: { type: 'string', format: 'binary' } },
+      required: ['avatar'],
+    });
+  });
+});
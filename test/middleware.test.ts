@@ -0,0 +1,60 @@
+import express from 'express';
+import { describe, expect, it } from 'vitest';
+import { CreateTypedRouter, defineMiddleware, generateOpenAPISpec, z } from '../src';
+import { withServer } from './helpers';
+
+const info = { title: 'Test', version: '1.0.0' };
+
+const withUser = defineMiddleware<{ user: { id: string } }>((req, res, next) => {
+  if (!req.get('authorization')) return res.status(401).json({ message: 'Unauthorized' });
+  req.user = { id: 'u1' };
+  next();
+}, {
+  schema: {
+    headers: z.object({ authorization: z.string() }),
+    response: { 401: z.object({ message: z.string() }) },
+  },
+});
+
+describe('defineMiddleware', () => {
+  it('types what the middleware adds and documents its parameters and responses', async () => {
+    const router = CreateTypedRouter();
+    router.get('/me', { schema: { response: { 200: z.object({ id: z.string() }) } } }, withUser, (req, res) => {
+      res.json({ id: req.user.id });
+    });
+    const app = express();
+    app.use(router);
+
+    const spec: any = generateOpenAPISpec({ info }, router);
+    const operation = spec.paths['/me'].get;
+    expect(operation.parameters).toEqual([expect.objectContaining({ name: 'authorization', in: 'header', required: true })]);
+    expect(Object.keys(operation.responses)).toEqual(['200', '401']);
+
+    await withServer(app, async (baseUrl) => {
+      expect((await fetch(`${baseUrl}/me`)).status).toBe(401);
+      const response = await fetch(`${baseUrl}/me`, { headers: { authorization: 'token' } });
+      expect(await response.json()).toEqual({ id: 'u1' });
+    });
+  });
+
+  it('keeps the event stream response of SSE routes next to the middleware responses', async () => {
+    const router = CreateTypedRouter();
+    router.sse('/events', { schema: { events: { tick: z.object({ n: z.number() }) } }, heartbeat: 0 }, withUser, (req, stream) => {
+      stream.send('tick', { n: 1 });
+      stream.close();
+    });
+    const app = express();
+    app.use(router);
+
+    const spec: any = generateOpenAPISpec({ info }, router);
+    const { responses } = spec.paths['/events'].get;
+    expect(Object.keys(responses).sort()).toEqual(['200', '401']);
+    expect(Object.keys(responses['200'].content)).toEqual(['text/event-stream']);
+
+    await withServer(app, async (baseUrl) => {
+      const response = await fetch(`${baseUrl}/events`, { headers: { authorization: 'token' } });
+      expect(response.status).toBe(200);
+      expect(await response.text()).toContain('event: tick\ndata: {"n":1}\n\n');
+    });
+  });
+});
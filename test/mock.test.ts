@@ -0,0 +1,120 @@
+import express from 'express';
+import { describe, expect, it } from 'vitest';
+import { CreateTypedRouter, z } from '../src';
+import { withServer } from './helpers';
+
+const createApp = (response: z.ZodType<any>) => {
+  const router = CreateTypedRouter({ mock: true });
+  router.get('/resource', { schema: { response: { 200: response } }, responseValidation: { mode: 'strict' } }, (req, res) => {
+    throw new Error('The handler does not run in mock mode');
+  });
+
+  const app = express();
+  app.use(router);
+  return app;
+};
+
+const get = async (app: express.Express, headers: Record<string, string> = {}) => {
+  return withServer(app, async (baseUrl) => {
+    const response = await fetch(`${baseUrl}/resource`, { headers });
+    return { status: response.status, type: response.headers.get('content-type'), text: await response.text() };
+  });
+};
+
+describe('mock mode', () => {
+  it('answers with data generated from the response schema', async () => {
+    const app = createApp(z.object({ id: z.uuid(), email: z.email(), age: z.number().int().min(18) }));
+    const { status, text } = await get(app);
+
+    expect(status).toBe(200);
+    expect(JSON.parse(text)).toEqual({ id: '3fa85f64-5717-4562-b3fc-2c963f66afa6', email: 'user@example.com', age: 18 });
+  });
+
+  it('generates strings matching their patterns, so strict response validation passes', async () => {
+    const Account = z.object({
+      code: z.string().regex(/^[A-Z]{3}-\d{4}$/),
+      slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/).min(8),
+      reference: z.string().startsWith('ref_').endsWith('_x'),
+      name: z.string().regex(/^(Mr|Ms)\. [A-Z][a-z]+$/),
+      shout: z.string().uppercase(),
+    });
+    const { status, text } = await get(createApp(Account));
+
+    expect(status).toBe(200);
+    const body = JSON.parse(text);
+    expect(Account.safeParse(body).success).toBe(true);
+    expect(body.code).toBe('AAA-0000');
+  });
+
+  it('uses the examples of the negotiated media type', async () => {
+    const router = CreateTypedRouter({ mock: true });
+    router.get('/resource', {
+      schema: {
+        response: {
+          200: {
+            body: { 'application/json': z.object({ id: z.string() }), 'text/csv': z.string() },
+            examples: { 'text/csv': { rows: { value: 'id\n7' } } },
+          },
+        },
+      },
+    }, (req, res) => {
+      res.end();
+    });
+    const app = express();
+    app.use(router);
+
+    expect((await get(app, { accept: 'text/csv' })).text).toBe('id\n7');
+    expect(JSON.parse((await get(app, { accept: 'application/json' })).text)).toEqual({
+      id: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+    });
+  });
+
+  it('picks string samples from the last whole word of property names', async () => {
+    const app = createApp(z.object({
+      createdAt: z.string(),
+      userId: z.string(),
+      avatar_url: z.string(),
+      format: z.string(),
+      paid: z.string(),
+    }));
+
+    expect(JSON.parse((await get(app)).text)).toEqual({
+      createdAt: '2024-01-01T12:00:00.000Z',
+      userId: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+      avatar_url: 'https://example.com',
+      format: 'string',
+      paid: 'string',
+    });
+  });
+
+  it('answers the declared status named by the x-mock-status header or the __status query parameter', async () => {
+    const router = CreateTypedRouter({ mock: true });
+    router.get('/users/:id', {
+      schema: {
+        response: {
+          200: z.object({ id: z.string() }),
+          404: z.object({ message: z.literal('Not found') }),
+        },
+      },
+    }, (req, res) => {
+      res.end();
+    });
+    const app = express();
+    app.use(router);
+
+    await withServer(app, async (baseUrl) => {
+      const byDefault = await fetch(`${baseUrl}/users/1`);
+      expect(byDefault.status).toBe(200);
+
+      const byHeader = await fetch(`${baseUrl}/users/1`, { headers: { 'x-mock-status': '404' } });
+      expect(byHeader.status).toBe(404);
+      expect(await byHeader.json()).toEqual({ message: 'Not found' });
+
+      const byQuery = await fetch(`${baseUrl}/users/1?__status=404`);
+      expect(byQuery.status).toBe(404);
+
+      const undeclared = await fetch(`${baseUrl}/users/1?__status=418`);
+      expect(undeclared.status).toBe(500);
+    });
+  });
+});
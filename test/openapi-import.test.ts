@@ -0,0 +1,123 @@
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parse } from 'yaml';
+import { CreateTypedRouter, generateOpenAPISpec, generateRoutesFromOpenAPI, registerSchema, z } from '../src';
+import { withTempDir } from './helpers';
+
+const info = { title: 'Pets', version: '2.0.0' };
+
+const createSpec = () => {
+  const Pet = registerSchema('Pet', z.object({
+    id: z.string(),
+    name: z.string().min(1),
+    kind: z.enum(['cat', 'dog']),
+    tags: z.array(z.string()).optional(),
+  }));
+  const router = CreateTypedRouter();
+  router.get('/pets/:id', {
+    schema: { params: z.object({ id: z.string() }), response: { 200: Pet } },
+  }, (req, res) => {
+    res.end();
+  });
+  router.post('/pets', {
+    schema: { body: Pet, query: z.object({ dryRun: z.boolean().optional() }), response: { 201: Pet } },
+  }, (req, res) => {
+    res.end();
+  });
+  return generateOpenAPISpec({ info }, router);
+};
+
+/** A hand-written 3.0 document, with the idioms documents generated by this library never use. */
+const legacySpec = () => parse(readFileSync(path.join(__dirname, 'fixtures/legacy-pets.yaml'), 'utf8'));
+
+/** Writes the source generated from the legacy document and imports it. */
+const withLegacyRoutes = (run: (source: string, routes: any) => void) => withTempDir(async (directory) => {
+  const source = generateRoutesFromOpenAPI(legacySpec(), { importFrom: path.resolve(__dirname, '../src') });
+  const file = path.join(directory, 'routes.ts');
+  writeFileSync(file, source);
+  run(source, await import(file));
+});
+
+describe('generateRoutesFromOpenAPI', () => {
+  it('generates named schemas, a config and stub routes', () => {
+    const source = generateRoutesFromOpenAPI(createSpec(), { importFrom: 'my-lib', routerName: 'petsRouter' });
+
+    expect(source).toContain('import { CreateTypedRouter, registerSchema, z } from "my-lib";');
+    expect(source).toContain('export const PetSchema = registerSchema("Pet", ');
+    expect(source).toContain('export const petsRouter = CreateTypedRouter();');
+    expect(source).toContain('petsRouter.get("/pets/:id", {');
+  });
+
+  it('generates code that documents the same API again', async () => {
+    const spec = createSpec();
+    const source = generateRoutesFromOpenAPI(spec, { importFrom: path.resolve(__dirname, '../src') });
+
+    await withTempDir(async (directory) => {
+      const file = path.join(directory, 'routes.ts');
+      writeFileSync(file, source);
+      const { openAPIConfig, router } = await import(file);
+
+      expect(generateOpenAPISpec(openAPIConfig, router)).toEqual(spec);
+    });
+  });
+
+  it('lists what it could not import at the top of the source', () => {
+    const source = generateRoutesFromOpenAPI(legacySpec());
+
+    expect(source.split('\n').slice(0, 4)).toEqual([
+      '// Not imported:',
+      '// - Response "default" of GET /pets/{pet-id}: only numeric statuses can be declared.',
+      '// - Path parameter "pet-id" of /pets/{pet-id} was renamed to "petId".',
+      '// - HEAD /pets/{pet-id}: the router has no head method.',
+    ]);
+  });
+
+  it('imports 3.0 nullable, allOf wrappers and boolean exclusive bounds', async () => {
+    await withLegacyRoutes((source, { CatSchema, DogSchema }) => {
+      expect(source).toContain('name: z.string().nullable(),');
+      expect(source).toContain('lives: z.number().int().gt(0).max(9),');
+      expect(source).toContain('owner: OwnerSchema.nullable().describe("Who feeds the cat").optional(),');
+
+      expect(CatSchema.safeParse({ kind: 'cat', name: null, lives: 1, owner: null }).success).toBe(true);
+      expect(CatSchema.safeParse({ kind: 'cat', name: 'Tom', lives: 9, owner: { name: 'Ann' } }).success).toBe(true);
+      expect(CatSchema.safeParse({ kind: 'cat', name: 'Tom', lives: 0 }).success).toBe(false);
+      expect(CatSchema.safeParse({ kind: 'cat', name: 'Tom', lives: 1, owner: {} }).success).toBe(false);
+      expect(DogSchema.safeParse({ kind: 'dog', name: 'Rex', weight: 0 }).success).toBe(false);
+    });
+  });
+
+  it('imports a oneOf with a discriminator as a discriminated union', async () => {
+    await withLegacyRoutes((source, { PetSchema }) => {
+      expect(source).toContain('export const PetSchema = registerSchema("Pet", z.discriminatedUnion("kind", [');
+
+      expect(PetSchema.parse({ kind: 'dog', name: 'Rex', weight: 12 })).toEqual({ kind: 'dog', name: 'Rex', weight: 12 });
+      expect(PetSchema.safeParse({ kind: 'cat', name: 'Rex', weight: 12 }).success).toBe(false);
+      expect(PetSchema.safeParse({ kind: 'bird', name: 'Tweety' }).success).toBe(false);
+    });
+  });
+
+  it('imports mutually recursive components with z.lazy', async () => {
+    await withLegacyRoutes((source, { CategorySchema }) => {
+      expect(source).toContain('export const CategorySchema: z.ZodType<any> = registerSchema("Category", ');
+      expect(source).toContain('products: z.array(z.lazy(() => ProductSchema)).optional(),');
+      expect(source).toContain('category: z.lazy(() => CategorySchema).optional(),');
+
+      const category = { name: 'Toys', products: [{ name: 'Ball', category: { name: 'Balls', products: [] } }] };
+      expect(CategorySchema.parse(category)).toEqual(category);
+      expect(CategorySchema.safeParse({ name: 'Toys', products: [{ name: 'Ball', category: {} }] }).success).toBe(false);
+    });
+  });
+
+  it('renames path parameters that are not identifiers', async () => {
+    await withLegacyRoutes((source, { openAPIConfig, router }) => {
+      expect(source).toContain('router.get("/pets/:petId", {');
+
+      const spec: any = generateOpenAPISpec(openAPIConfig, router);
+      expect(Object.keys(spec.paths)).toEqual(['/pets/{petId}', '/pets', '/categories']);
+      expect(spec.paths['/pets/{petId}'].get.parameters).toEqual([
+        expect.objectContaining({ name: 'petId', in: 'path', required: true }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import express from 'express';
+import { describe, expect, it } from 'vitest';
+import { CreateTypedRouter, problemDetailsErrorHandler, z } from '../src';
+import { withServer } from './helpers';
+
+const createApp = (options: { validateAllSegments?: boolean; errorHandler?: express.ErrorRequestHandler }) => {
+  const router = CreateTypedRouter();
+  router.post('/orders/:id', {
+    schema: {
+      params: z.object({ id: z.string().uuid() }),
+      query: z.object({ notify: z.enum(['yes', 'no']) }),
+      body: z.object({ items: z.array(z.object({ sku: z.string() })).min(1) }),
+    },
+    ...options,
+  }, (req, res) => {
+    res.json({ ok: true });
+  });
+
+  const app = express();
+  app.use(express.json());
+  app.use(router);
+  return app;
+};
+
+const postInvalidOrder = (baseUrl: string) => {
+  return fetch(`${baseUrl}/orders/not-a-uuid?notify=maybe`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ items: [{ sku: 1 }] }),
+  });
+};
+
+describe('validation error reporting', () => {
+  it('reports only the first failing segment by default', async () => {
+    await withServer(createApp({}), async (baseUrl) => {
+      const body: any = await (await postInvalidOrder(baseUrl)).json();
+      expect(body.message).toBe('Body validation failed.');
+    });
+  });
+
+  it('collects the errors of every segment with validateAllSegments', async () => {
+    await withServer(createApp({ validateAllSegments: true }), async (baseUrl) => {
+      const body: any = await (await postInvalidOrder(baseUrl)).json();
+      expect(body.message).toBe('Request validation failed.');
+      expect(Object.keys(body.errors).sort()).toEqual(['body', 'params', 'query']);
+    });
+  });
+
+  it('answers with RFC 9457 problem details', async () => {
+    const app = createApp({ validateAllSegments: true, errorHandler: problemDetailsErrorHandler as express.ErrorRequestHandler });
+
+    await withServer(app, async (baseUrl) => {
+      const response = await postInvalidOrder(baseUrl);
+      expect(response.status).toBe(400);
+      expect(response.headers.get('content-type')).toContain('application/problem+json');
+
+      const problem: any = await response.json();
+      expect(problem).toMatchObject({ type: 'about:blank', title: 'Bad Request', status: 400, instance: '/orders/not-a-uuid?notify=maybe' });
+      expect(problem.errors).toContainEqual(expect.objectContaining({ segment: 'body', pointer: '#/items/0/sku' }));
+      expect(problem.errors).toContainEqual(expect.objectContaining({ segment: 'params', pointer: '#/id' }));
+    });
+  });
+});
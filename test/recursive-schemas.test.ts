@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { CreateTypedRouter, generateOpenAPISpec, registerSchema, z } from '../src';
+
+const info = { title: 'Test', version: '1.0.0' };
+
+describe('recursive schemas', () => {
+  it('emits a named lazy schema as a component referencing itself', () => {
+    const Category: z.ZodType<{ name: string; children: unknown[] }> = registerSchema(
+      'Category',
+      z.object({
+        name: z.string(),
+        children: z.lazy(() => z.array(Category)),
+      })
+    );
+    const router = CreateTypedRouter();
+    router.get('/categories', { schema: { response: { 200: Category } } }, (req, res) => {
+      res.json({ name: 'root', children: [] });
+    });
+
+    const spec: any = generateOpenAPISpec({ info }, router);
+
+    expect(spec.paths['/categories'].get.responses['200'].content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/Category',
+    });
+    expect(spec.components.schemas.Category.properties.children).toEqual({
+      type: 'array',
+      items: { $ref: '#/components/schemas/Category' },
+    });
+  });
+
+  it('names unnamed recursive schemas built with getters', () => {
+    const Node = z.object({
+      value: z.number(),
+      get next() {
+        return Node.optional();
+      },
+    });
+    const router = CreateTypedRouter();
+    router.post('/nodes', { schema: { body: Node } }, (req, res) => {
+      res.end();
+    });
+
+    const spec: any = generateOpenAPISpec({ info }, router);
+    const reference = spec.paths['/nodes'].post.requestBody.content['application/json'].schema.$ref;
+
+    expect(reference).toMatch(/^#\/components\/schemas\/RecursiveSchema\d+$/);
+    const component = spec.components.schemas[reference.split('/').pop()];
+    expect(component.properties.next).toEqual({ $ref: reference });
+    expect(component.required).toEqual(['value']);
+  });
+});
@@ -0,0 +1,54 @@
+import express from 'express';
+import { describe, expect, it, vi } from 'vitest';
+import { CreateTypedRouter, generateOpenAPISpec, z } from '../src';
+import { withServer } from './helpers';
+
+const schema = {
+  response: {
+    200: {
+      body: z.array(z.string()),
+      headers: z.object({ 'x-total-count': z.string().regex(/^\d+$/), 'x-next-page': z.string().optional() }),
+    },
+  },
+};
+
+describe('typed response headers', () => {
+  it('validates the headers declared for the status', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const router = CreateTypedRouter();
+    router.get('/valid', { schema }, (req, res) => {
+      res.set('x-total-count', '2').json(['a', 'b']);
+    });
+    router.get('/missing', { schema }, (req, res) => {
+      res.json(['a', 'b']);
+    });
+    router.get('/malformed', { schema }, (req, res) => {
+      res.set('x-total-count', 'two').json(['a', 'b']);
+    });
+
+    const app = express();
+    app.use(router);
+
+    await withServer(app, async (baseUrl) => {
+      const valid = await fetch(`${baseUrl}/valid`);
+      expect(valid.status).toBe(200);
+      expect(valid.headers.get('x-total-count')).toBe('2');
+
+      expect((await fetch(`${baseUrl}/missing`)).status).toBe(500);
+      expect((await fetch(`${baseUrl}/malformed`)).status).toBe(500);
+    });
+  });
+
+  it('documents the headers of each response', () => {
+    const router = CreateTypedRouter();
+    router.get('/items', { schema }, (req, res) => {
+      res.set('x-total-count', '0').json([]);
+    });
+
+    const spec: any = generateOpenAPISpec({ info: { title: 'Test', version: '1.0.0' } }, router);
+    const headers = spec.paths['/items'].get.responses['200'].headers;
+
+    expect(headers['x-total-count']).toMatchObject({ required: true, schema: { type: 'string', pattern: '^\\d+$' } });
+    expect(headers['x-next-page'].required).toBeFalsy();
+  });
+});
@@ -0,0 +1,116 @@
+import express from 'express';
+import { describe, expect, it, vi } from 'vitest';
+import { CreateTypedRouter, z } from '../src';
+import { withServer } from './helpers';
+
+const createApp = (errorHandler?: express.ErrorRequestHandler) => {
+  const router = CreateTypedRouter();
+  const schema = {
+    response: {
+      200: z.object({ ok: z.boolean() }),
+      204: z.undefined(),
+    },
+  };
+
+  router.get('/json', { schema }, (req, res) => {
+    res.json({ ok: 'yes' } as any);
+  });
+  router.get('/status-code', { schema }, (req, res) => {
+    res.statusCode = 200;
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify({ ok: true }));
+  });
+  router.get('/undeclared', { schema }, (req, res) => {
+    (res as any).sendStatus(202);
+  });
+  router.get('/no-content', { schema }, (req, res) => {
+    res.sendStatus(204);
+  });
+  router.get('/streamed', { schema, errorHandler }, (req, res) => {
+    res.status(201 as any);
+    res.write('partial ');
+    res.end('body');
+  });
+
+  const app = express();
+  app.use(router);
+  return app;
+};
+
+describe('response validation of every sending path', () => {
+  it('validates res.json bodies', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await withServer(createApp(), async (baseUrl) => {
+      expect((await fetch(`${baseUrl}/json`)).status).toBe(500);
+    });
+  });
+
+  it('validates res.end with an assigned statusCode', async () => {
+    await withServer(createApp(), async (baseUrl) => {
+      const response = await fetch(`${baseUrl}/status-code`);
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ ok: true });
+    });
+  });
+
+  it('rejects statuses the route does not declare', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await withServer(createApp(), async (baseUrl) => {
+      expect((await fetch(`${baseUrl}/undeclared`)).status).toBe(500);
+      expect((await fetch(`${baseUrl}/no-content`)).status).toBe(204);
+    });
+  });
+
+  it('cuts off a streamed response with an undeclared status instead of answering it twice', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const errorHandler = vi.fn<express.ErrorRequestHandler>((error, req, res) => {
+      res.status(500).json({ message: error.message });
+    });
+
+    await withServer(createApp(errorHandler), async (baseUrl) => {
+      await expect(fetch(`${baseUrl}/streamed`).then((response) => response.text())).rejects.toThrow();
+    });
+    expect(errorHandler).not.toHaveBeenCalled();
+  });
+
+  it("sends the app error handler's response as it is once the handler threw", async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const router = CreateTypedRouter();
+    router.get('/failing', { schema: { response: { 200: z.object({ ok: z.boolean() }) } } }, () => {
+      throw new Error('Database unavailable');
+    });
+    const app = express();
+    app.use(router);
+    app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+      res.status(500).json({ custom: true });
+    });
+
+    await withServer(app, async (baseUrl) => {
+      const response = await fetch(`${baseUrl}/failing`);
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ custom: true });
+    });
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
+  it('lets undeclared redirects through with allowRedirects', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const router = CreateTypedRouter();
+    const schema = { response: { 200: z.object({ ok: z.boolean() }) } };
+    router.get('/strict', { schema }, (req, res) => {
+      res.redirect('/elsewhere');
+    });
+    router.get('/allowed', { schema, responseValidation: { allowRedirects: true } }, (req, res) => {
+      res.redirect('/elsewhere');
+    });
+    const app = express();
+    app.use(router);
+
+    await withServer(app, async (baseUrl) => {
+      expect((await fetch(`${baseUrl}/strict`, { redirect: 'manual' })).status).toBe(500);
+      const allowed = await fetch(`${baseUrl}/allowed`, { redirect: 'manual' });
+      expect(allowed.status).toBe(302);
+      expect(allowed.headers.get('location')).toBe('/elsewhere');
+    });
+  });
+});
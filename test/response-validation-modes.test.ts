@@ -0,0 +1,63 @@
+import express from 'express';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CreateTypedRouter, ResponseValidationOptions, z } from '../src';
+import { withServer } from './helpers';
+
+const createApp = (responseValidation: ResponseValidationOptions) => {
+  const router = CreateTypedRouter();
+  const schema = { response: { 200: z.object({ id: z.string(), name: z.string() }) } };
+
+  router.get('/valid', { schema, responseValidation }, (req, res) => {
+    res.json({ id: '1', name: 'Jane', passwordHash: 'secret' } as any);
+  });
+  router.get('/invalid', { schema, responseValidation }, (req, res) => {
+    res.json({ id: 1, passwordHash: 'secret' } as any);
+  });
+
+  const app = express();
+  app.use(router);
+  return app;
+};
+
+const get = async (app: express.Express, path: string) => {
+  return withServer(app, async (baseUrl) => {
+    const response = await fetch(`${baseUrl}${path}`);
+    return { status: response.status, body: await response.json() };
+  });
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('response validation modes', () => {
+  it('hands failures to the error handler in strict mode', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect((await get(createApp({ mode: 'strict' }), '/invalid')).status).toBe(500);
+  });
+
+  it('logs failures and sends the response in log mode', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const response = await get(createApp({ mode: 'log' }), '/invalid');
+
+    expect(response).toEqual({ status: 200, body: { id: 1, passwordHash: 'secret' } });
+    expect(error).toHaveBeenCalled();
+  });
+
+  it('strips undeclared fields with sendParsed, even for unsampled requests', async () => {
+    const response = await get(createApp({ mode: 'strict', sampleRate: 0, sendParsed: true }), '/valid');
+    expect(response).toEqual({ status: 200, body: { id: '1', name: 'Jane' } });
+  });
+
+  it.each<ResponseValidationOptions>([
+    { mode: 'log', sendParsed: true },
+    { mode: 'off', sendParsed: true },
+    { mode: 'strict', sampleRate: 0, sendParsed: true },
+  ])('never sends a body that does not parse with sendParsed (%o)', async (options) => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const response = await get(createApp(options), '/invalid');
+
+    expect(response.status).toBe(500);
+    expect(JSON.stringify(response.body)).not.toContain('secret');
+  });
+});
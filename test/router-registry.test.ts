@@ -0,0 +1,48 @@
+import express from 'express';
+import { describe, expect, it } from 'vitest';
+import { CreateTypedRouter, generateOpenAPISpec, z } from '../src';
+
+const info = { title: 'Test', version: '1.0.0' };
+
+const createUsersRouter = () => {
+  const users = CreateTypedRouter();
+  users.get('/:id', {
+    schema: { params: z.object({ id: z.string() }), response: { 200: z.object({ id: z.string() }) } },
+  }, (req, res) => {
+    res.json({ id: req.params.id });
+  });
+  return users;
+};
+
+describe('route registries', () => {
+  it('keeps the routes of each router apart', () => {
+    const users = createUsersRouter();
+    const health = CreateTypedRouter();
+    health.get('/health', { schema: {} }, (req, res) => {
+      res.end();
+    });
+
+    expect(users.getRoutesMetadata().map(({ path }) => path)).toEqual(['/:id']);
+    expect(health.getRoutesMetadata().map(({ path }) => path)).toEqual(['/health']);
+  });
+
+  it('prefixes the routes of mounted routers with their mount paths', () => {
+    const api = CreateTypedRouter();
+    api.use('/users', createUsersRouter());
+    api.use(['/v1/people', '/v2/people'], createUsersRouter());
+
+    const spec = generateOpenAPISpec({ info }, api);
+    expect(Object.keys(spec.paths ?? {}).sort()).toEqual(['/users/{id}', '/v1/people/{id}', '/v2/people/{id}']);
+  });
+
+  it('documents the typed routers mounted on an express app', () => {
+    const api = CreateTypedRouter();
+    api.use('/users', createUsersRouter());
+
+    const app = express();
+    app.use('/api', api);
+
+    const spec = generateOpenAPISpec({ info }, app);
+    expect(Object.keys(spec.paths ?? {})).toEqual(['/api/users/{id}']);
+  });
+});
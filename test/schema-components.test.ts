@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import * as z3 from 'zod/v3';
+import { CreateTypedRouter, generateOpenAPISpec, registerSchema, z } from '../src';
+
+const info = { title: 'Test', version: '1.0.0' };
+
+describe('registerSchema', () => {
+  it('emits a named schema once and references it wherever it is used', () => {
+    const User = registerSchema('User', z.object({ id: z.string(), name: z.string() }));
+    const router = CreateTypedRouter();
+    router.post('/users', { schema: { body: User, response: { 201: User, 200: z.array(User) } } }, (req, res) => {
+      res.status(201).json(req.body);
+    });
+
+    const spec: any = generateOpenAPISpec({ info }, router);
+    const operation = spec.paths['/users'].post;
+
+    expect(spec.components.schemas.User).toEqual({
+      type: 'object',
+      properties: { id: { type: 'string' }, name: { type: 'string' } },
+      required: ['id', 'name'],
+    });
+    expect(operation.requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/User' });
+    expect(operation.responses['200'].content['application/json'].schema.items).toEqual({ $ref: '#/components/schemas/User' });
+  });
+
+  it('keeps schemas derived from a named one inline', () => {
+    const Tag = registerSchema('Tag', z.object({ label: z.string() }));
+    const router = CreateTypedRouter();
+    router.post('/tags', { schema: { body: Tag.extend({ color: z.string() }) } }, (req, res) => {
+      res.end();
+    });
+
+    const spec: any = generateOpenAPISpec({ info }, router);
+    expect(spec.paths['/tags'].post.requestBody.content['application/json'].schema.type).toBe('object');
+    expect(spec.components?.schemas?.Tag).toBeUndefined();
+  });
+
+  it('names Zod 3 schemas too', () => {
+    const Pet = registerSchema('Pet', z3.object({ name: z3.string() }) as any);
+    const router = CreateTypedRouter();
+    router.get('/pets', { schema: { response: { 200: z3.array(Pet) as any } } }, (req, res) => {
+      res.json([]);
+    });
+
+    const spec: any = generateOpenAPISpec({ info }, router);
+    expect(spec.paths['/pets'].get.responses['200'].content['application/json'].schema).toEqual({
+      type: 'array',
+      items: { $ref: '#/components/schemas/Pet' },
+    });
+    expect(spec.components.schemas.Pet).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      required: ['name'],
+    });
+  });
+});
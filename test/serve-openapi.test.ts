@@ -0,0 +1,78 @@
+import express from 'express';
+import { describe, expect, it } from 'vitest';
+import { parse } from 'yaml';
+import { CreateTypedRouter, serveOpenAPI, z } from '../src';
+import { withServer } from './helpers';
+
+const config = { info: { title: 'Docs', version: '1.0.0' } };
+
+const createApp = (options: Partial<Parameters<typeof serveOpenAPI>[0]> = {}) => {
+  const router = CreateTypedRouter();
+  router.get('/items', { schema: { response: { 200: z.array(z.string()) } } }, (req, res) => {
+    res.json([]);
+  });
+
+  const app = express();
+  app.use('/api', router);
+  app.use(serveOpenAPI({ config, ...options }));
+  return app;
+};
+
+describe('serveOpenAPI', () => {
+  it('serves the document of the app as JSON and YAML', async () => {
+    await withServer(createApp({ ui: false }), async (baseUrl) => {
+      const json: any = await fetch(`${baseUrl}/openapi.json`).then((response) => response.json());
+      expect(Object.keys(json.paths)).toEqual(['/api/items']);
+
+      const yaml = await fetch(`${baseUrl}/openapi.yaml`);
+      expect(yaml.headers.get('content-type')).toContain('application/yaml');
+      expect(parse(await yaml.text())).toEqual(json);
+    });
+  });
+
+  it('serves a Swagger UI page loading the document and its assets locally', async () => {
+    await withServer(createApp({ ui: 'swagger-ui' }), async (baseUrl) => {
+      const page = await fetch(`${baseUrl}/docs`);
+      expect(page.headers.get('content-type')).toContain('text/html');
+      const html = await page.text();
+      expect(html).toContain('<title>Docs</title>');
+      expect(html).toContain('url: "/openapi.json"');
+      expect(html).toContain('src="/docs/assets/swagger-ui-bundle.js"');
+
+      const css = await fetch(`${baseUrl}/docs/assets/swagger-ui.css`);
+      expect(css.status).toBe(200);
+      expect(css.headers.get('content-type')).toContain('text/css');
+      expect((await fetch(`${baseUrl}/docs/assets/swagger-ui-bundle.js`)).status).toBe(200);
+      expect((await fetch(`${baseUrl}/docs/assets/package.json`)).status).toBe(404);
+    });
+  });
+
+  it('prefixes the document and asset URLs with the mount path', async () => {
+    const app = express();
+    app.use('/reference', serveOpenAPI({ config, ui: 'swagger-ui', uiPath: '/ui' }));
+
+    await withServer(app, async (baseUrl) => {
+      const html = await fetch(`${baseUrl}/reference/ui`).then((response) => response.text());
+      expect(html).toContain('url: "/reference/openapi.json"');
+      expect(html).toContain('href="/reference/ui/assets/swagger-ui.css"');
+      expect((await fetch(`${baseUrl}/reference/ui/assets/swagger-ui.css`)).status).toBe(200);
+    });
+  });
+
+  it('defaults to Swagger UI when swagger-ui-dist is installed', async () => {
+    await withServer(createApp(), async (baseUrl) => {
+      expect(await fetch(`${baseUrl}/docs`).then((response) => response.text())).toContain('SwaggerUIBundle');
+    });
+  });
+
+  it('serves only the documents with ui: false', async () => {
+    await withServer(createApp({ ui: false }), async (baseUrl) => {
+      expect((await fetch(`${baseUrl}/docs`)).status).toBe(404);
+      expect((await fetch(`${baseUrl}/openapi.json`)).status).toBe(200);
+    });
+  });
+
+  it('names the missing package when a UI is asked for', () => {
+    expect(() => createApp({ ui: 'redoc' })).toThrow('npm install redoc');
+  });
+});
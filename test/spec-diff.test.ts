@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { CreateTypedRouter, diffOpenAPISpecs, formatSpecDiff, generateOpenAPISpec, registerSchema, z } from '../src';
+
+const info = { title: 'Test', version: '1.0.0' };
+
+const specOf = (body: z.ZodType<any>, response: z.ZodType<any>) => {
+  const router = CreateTypedRouter();
+  router.post('/users', { schema: { body, response: { 201: response } } }, (req, res) => {
+    res.status(201).json(req.body);
+  });
+  return generateOpenAPISpec({ info }, router);
+};
+
+describe('diffOpenAPISpecs', () => {
+  it('finds no changes between equal documents', () => {
+    const spec = specOf(z.object({ name: z.string() }), z.object({ id: z.string() }));
+    const diff = diffOpenAPISpecs(spec, spec);
+
+    expect(diff.changes).toEqual([]);
+    expect(formatSpecDiff(diff)).toBe('No changes.');
+  });
+
+  it('classifies narrower requests and removed response fields as breaking', () => {
+    const before = specOf(
+      z.object({ name: z.string(), role: z.enum(['admin', 'member']) }),
+      z.object({ id: z.string(), email: z.string() })
+    );
+    const after = specOf(
+      z.object({ name: z.string(), role: z.enum(['admin']), team: z.string() }),
+      z.object({ id: z.string() })
+    );
+
+    const diff = diffOpenAPISpecs(before, after);
+
+    expect(diff.hasBreakingChanges).toBe(true);
+    expect(diff.breaking.map(({ kind }) => kind).sort()).toEqual(['enum-changed', 'property-added', 'property-removed']);
+    expect(diff.breaking.every(({ operation }) => operation === 'POST /users')).toBe(true);
+  });
+
+  it('classifies optional request fields and added response fields as non-breaking', () => {
+    const before = specOf(z.object({ name: z.string() }), z.object({ id: z.string() }));
+    const after = specOf(
+      z.object({ name: z.string(), nickname: z.string().optional() }),
+      z.object({ id: z.string(), createdAt: z.string() })
+    );
+
+    const diff = diffOpenAPISpecs(before, after);
+
+    expect(diff.hasBreakingChanges).toBe(false);
+    expect(diff.nonBreaking.map(({ kind }) => kind)).toEqual(['property-added', 'property-added']);
+    expect(formatSpecDiff(diff)).toMatch(/^Non-breaking changes \(2\):/);
+  });
+
+  it('reports removed operations as breaking', () => {
+    const before = specOf(z.object({ name: z.string() }), z.object({ id: z.string() }));
+    const diff = diffOpenAPISpecs(before, generateOpenAPISpec({ info }, CreateTypedRouter()));
+
+    expect(diff.breaking).toEqual([expect.objectContaining({ kind: 'operation-removed', operation: 'POST /users' })]);
+  });
+
+  it('compares a nullable reference with the schema it wraps', () => {
+    const Address = registerSchema('Address', z.object({ city: z.string() }));
+    const before = specOf(z.object({ address: Address }), z.object({ id: z.string() }));
+    const after = specOf(z.object({ address: Address.nullable() }), z.object({ id: z.string() }));
+
+    const diff = diffOpenAPISpecs(before, after);
+
+    expect(diff.changes).toEqual([
+      expect.objectContaining({
+        severity: 'non-breaking',
+        kind: 'type-changed',
+        location: 'request body application/json: address',
+        message: 'now also accepts type null',
+      }),
+    ]);
+  });
+
+  it('compares changed union members one by one', () => {
+    const before = specOf(
+      z.object({ name: z.string() }),
+      z.object({ contact: z.union([z.object({ email: z.string() }), z.string()]) })
+    );
+    const after = specOf(
+      z.object({ name: z.string() }),
+      z.object({ contact: z.union([z.object({ email: z.string(), phone: z.string().optional() }), z.string()]) })
+    );
+
+    const diff = diffOpenAPISpecs(before, after);
+
+    expect(diff.changes).toEqual([
+      expect.objectContaining({ severity: 'non-breaking', kind: 'property-added', location: 'response 201 application/json: contact.phone' }),
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+import express from 'express';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CreateTypedRouter, EventStream, EventValidationError, generateOpenAPISpec, z } from '../src';
+import { withServer } from './helpers';
+
+const events = { tick: z.object({ n: z.number() }) };
+
+/** An app with the router and an error handler recording what reaches it. */
+const createApp = (router: ReturnType<typeof CreateTypedRouter>) => {
+  const handled: unknown[] = [];
+  const app = express();
+  app.use(router);
+  app.use((error: unknown, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    handled.push(error);
+    res.status(500).json({ message: 'Internal Server Error' });
+  });
+  return { app, handled };
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('router.sse', () => {
+  it('closes the stream instead of throwing when an event sent from a timer is invalid in strict mode', async () => {
+    const failures: unknown[] = [];
+    let sent: boolean | undefined;
+    const router = CreateTypedRouter();
+    router.sse('/ticks', { schema: { events }, heartbeat: 0 }, (req, stream) => {
+      stream.onError((error) => failures.push(error));
+      stream.send('tick', { n: 1 });
+      setTimeout(() => {
+        sent = stream.send('tick', { n: 'two' } as any);
+      }, 10);
+    });
+    const { app, handled } = createApp(router);
+
+    await withServer(app, async (baseUrl) => {
+      const response = await fetch(`${baseUrl}/ticks`);
+      const text = await response.text();
+      expect(response.status).toBe(200);
+      expect(text).toContain('event: tick\ndata: {"n":1}\n\n');
+      expect(text).not.toContain('two');
+    });
+
+    expect(sent).toBe(false);
+    expect(failures).toHaveLength(1);
+    expect(failures[0]).toBeInstanceOf(EventValidationError);
+    expect(handled).toEqual([]);
+  });
+
+  it('closes the stream and logs an error thrown by the handler without calling the error handler', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const router = CreateTypedRouter();
+    router.sse('/ticks', { schema: { events }, heartbeat: 0 }, async (req, stream) => {
+      stream.send('tick', { n: 1 });
+      throw new Error('Upstream unavailable');
+    });
+    const { app, handled } = createApp(router);
+
+    await withServer(app, async (baseUrl) => {
+      const response = await fetch(`${baseUrl}/ticks`);
+      const text = await response.text();
+      expect(response.status).toBe(200);
+      expect(text).toContain('event: tick\ndata: {"n":1}\n\n');
+      expect(text).not.toContain('Internal Server Error');
+    });
+
+    expect(handled).toEqual([]);
+    expect(consoleError).toHaveBeenCalledWith('Event stream failed:', expect.objectContaining({ message: 'Upstream unavailable' }));
+  });
+
+  it('sends heartbeat comments at the configured interval', async () => {
+    const router = CreateTypedRouter();
+    router.sse('/ticks', { schema: { events }, heartbeat: 20 }, (req, stream) => {
+      setTimeout(() => stream.close(), 90);
+    });
+    const { app } = createApp(router);
+
+    await withServer(app, async (baseUrl) => {
+      const text = await (await fetch(`${baseUrl}/ticks`)).text();
+      expect(text.match(/^: heartbeat\n\n/gm)?.length).toBeGreaterThanOrEqual(2);
+    });
+  });
+
+  it('tells the client its reconnection delay and resumes after Last-Event-ID', async () => {
+    const router = CreateTypedRouter();
+    router.sse('/ticks', { schema: { events }, heartbeat: 0, retry: 3000 }, (req, stream) => {
+      const n = Number(stream.lastEventId ?? 0) + 1;
+      stream.send('tick', { n }, { id: String(n) });
+      stream.close();
+    });
+    const { app } = createApp(router);
+
+    await withServer(app, async (baseUrl) => {
+      const response = await fetch(`${baseUrl}/ticks`, { headers: { 'last-event-id': '4' } });
+      expect(response.headers.get('content-type')).toBe('text/event-stream; charset=utf-8');
+      expect(await response.text()).toBe('retry: 3000\n\nid: 5\nevent: tick\ndata: {"n":5}\n\n');
+
+      expect(await (await fetch(`${baseUrl}/ticks`)).text()).toContain('id: 1\nevent: tick\ndata: {"n":1}\n\n');
+    });
+  });
+
+  it('closes the stream and aborts its signal when the client disconnects', async () => {
+    let opened!: EventStream<typeof events>;
+    let resolveClosed: () => void;
+    const closed = new Promise<void>((resolve) => {
+      resolveClosed = resolve;
+    });
+    const router = CreateTypedRouter();
+    router.sse('/ticks', { schema: { events }, heartbeat: 0 }, (req, stream) => {
+      opened = stream;
+      stream.onClose(() => resolveClosed());
+      stream.send('tick', { n: 1 });
+    });
+    const { app } = createApp(router);
+
+    await withServer(app, async (baseUrl) => {
+      const controller = new AbortController();
+      const response = await fetch(`${baseUrl}/ticks`, { signal: controller.signal });
+      await response.body!.getReader().read();
+      controller.abort();
+      await closed;
+    });
+
+    expect(opened.closed).toBe(true);
+    expect(opened.signal.aborted).toBe(true);
+    expect(opened.send('tick', { n: 2 })).toBe(false);
+  });
+
+  it('documents the events as a text/event-stream response', () => {
+    const router = CreateTypedRouter();
+    router.sse('/ticks', { schema: { events: { ...events, done: z.object({ total: z.number() }) } } }, (req, stream) => {
+      stream.close();
+    });
+
+    const spec: any = generateOpenAPISpec({ info: { title: 'Test', version: '1.0.0' } }, router);
+    const response = spec.paths['/ticks'].get.responses['200'];
+
+    expect(response.description).toBe("Server-sent events: tick, done. Each event's data is JSON.");
+    expect(response.content['text/event-stream'].schema.oneOf).toEqual([
+      {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          event: { type: 'string', const: 'tick' },
+          data: { type: 'object', properties: { n: { type: 'number' } }, required: ['n'] },
+        },
+        required: ['event', 'data'],
+      },
+      {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          event: { type: 'string', const: 'done' },
+          data: { type: 'object', properties: { total: { type: 'number' } }, required: ['total'] },
+        },
+        required: ['event', 'data'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,309 @@
+import { createHmac } from 'crypto';
+import express from 'express';
+import { describe, expect, it } from 'vitest';
+import {
+  CreateTypedRouter,
+  WebhookDeliveryError,
+  WebhookRequest,
+  WebhookSignatureError,
+  WebhookValidationError,
+  createWebhookDispatcher,
+  defineWebhook,
+  fetchTransport,
+  generateOpenAPISpec,
+  verifyWebhookSignature,
+  z,
+} from '../src';
+import { withServer } from './helpers';
+
+const secret = 'whsec_test';
+
+const userCreated = defineWebhook('user.created', {
+  payload: z.object({ userId: z.string(), email: z.string().email() }),
+});
+
+/** Headers `createWebhookDispatcher` sends with the default signing options. */
+const signedHeaders = (body: string, { key = secret, timestamp = String(Math.floor(Date.now() / 1000)) } = {}) => {
+  const digest = createHmac('sha256', key).update(`${timestamp}.${body}`).digest('hex');
+  return {
+    'content-type': 'application/json',
+    'x-webhook-signature': `v1=${digest}`,
+    'x-webhook-timestamp': timestamp,
+  };
+};
+
+/** An app receiving `userCreated` on `/webhooks/users`, recording the payloads it accepts and the reasons it rejects. */
+const createReceiver = (options: Parameters<typeof verifyWebhookSignature>[0] = { secret }) => {
+  const received: unknown[] = [];
+  const rejected: string[] = [];
+  const router = CreateTypedRouter();
+  router.post('/webhooks/users', {
+    schema: { body: userCreated.payload },
+    errorHandler: (error, req, res, next) => {
+      rejected.push((error as WebhookSignatureError).reason);
+      res.status(401).end();
+    },
+  }, verifyWebhookSignature(options), (req, res) => {
+    received.push(req.body);
+    res.end();
+  });
+  const app = express();
+  app.use(router);
+  return { app, received, rejected };
+};
+
+/** A transport answering with the given statuses in turn, recording the requests. */
+const scriptedTransport = (...statuses: number[]) => {
+  const requests: WebhookRequest[] = [];
+  const transport = async (request: WebhookRequest) => {
+    requests.push(request);
+    return { status: statuses[Math.min(requests.length, statuses.length) - 1] };
+  };
+  return { transport, requests };
+};
+
+const payload = { userId: 'u1', email: 'ada@example.com' };
+
+describe('verifyWebhookSignature', () => {
+  it("answers rejected signatures with the route's error handler", async () => {
+    const router = CreateTypedRouter();
+    router.post('/webhooks/users', {
+      schema: { body: userCreated.payload },
+      errorHandler: (error, req, res, next) => {
+        res.status(error instanceof WebhookSignatureError ? 403 : 500).json({ reason: (error as WebhookSignatureError).reason });
+      },
+    }, verifyWebhookSignature({ secret }), (req, res) => {
+      res.end();
+    });
+    const app = express();
+    app.use(router);
+
+    await withServer(app, async (baseUrl) => {
+      const body = JSON.stringify({ userId: 'u1', email: 'ada@example.com' });
+      const forged = await fetch(`${baseUrl}/webhooks/users`, {
+        method: 'POST',
+        headers: { ...signedHeaders(body), 'x-webhook-signature': 'v1=forged' },
+        body,
+      });
+      expect(forged.status).toBe(403);
+      expect(await forged.json()).toEqual({ reason: 'mismatch' });
+
+      const signed = await fetch(`${baseUrl}/webhooks/users`, { method: 'POST', headers: signedHeaders(body), body });
+      expect(signed.status).toBe(200);
+    });
+  });
+
+  it('answers a correctly signed body that is not valid JSON with a 400', async () => {
+    const router = CreateTypedRouter();
+    router.post('/webhooks/users', { schema: { body: userCreated.payload } }, verifyWebhookSignature({ secret }), (req, res) => {
+      res.end();
+    });
+    const app = express();
+    app.use(router);
+
+    await withServer(app, async (baseUrl) => {
+      const body = '{"userId": "u1",';
+      const response = await fetch(`${baseUrl}/webhooks/users`, { method: 'POST', headers: signedHeaders(body), body });
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ message: 'Body validation failed.' });
+    });
+  });
+
+  it('rejects timestamps outside the tolerance', async () => {
+    const { app, received, rejected } = createReceiver({ secret, tolerance: 60 });
+
+    await withServer(app, async (baseUrl) => {
+      const body = JSON.stringify(payload);
+      const post = (timestamp: number) => fetch(`${baseUrl}/webhooks/users`, {
+        method: 'POST',
+        headers: signedHeaders(body, { timestamp: String(Math.floor(Date.now() / 1000) + timestamp) }),
+        body,
+      });
+
+      expect((await post(-120)).status).toBe(401);
+      expect((await post(120)).status).toBe(401);
+      expect((await post(-30)).status).toBe(200);
+    });
+
+    expect(rejected).toEqual(['expired', 'expired']);
+    expect(received).toEqual([payload]);
+  });
+
+  it('accepts any of the secrets while they are rotated', async () => {
+    const rotating = createReceiver({ secret: ['whsec_next', secret] });
+    const rotated = createReceiver({ secret: 'whsec_next' });
+    const body = JSON.stringify(payload);
+    const post = (baseUrl: string, key: string) => fetch(`${baseUrl}/webhooks/users`, {
+      method: 'POST',
+      headers: signedHeaders(body, { key }),
+      body,
+    });
+
+    await withServer(rotating.app, async (baseUrl) => {
+      expect((await post(baseUrl, secret)).status).toBe(200);
+      expect((await post(baseUrl, 'whsec_next')).status).toBe(200);
+      expect((await post(baseUrl, 'whsec_other')).status).toBe(401);
+    });
+    await withServer(rotated.app, async (baseUrl) => {
+      expect((await post(baseUrl, secret)).status).toBe(401);
+    });
+
+    expect(rotating.rejected).toEqual(['mismatch']);
+    expect(rotated.rejected).toEqual(['mismatch']);
+  });
+
+  it('verifies the deliveries of a dispatcher with the same secret', async () => {
+    const { app, received } = createReceiver();
+    const webhooks = createWebhookDispatcher({ secret, transport: fetchTransport });
+
+    await withServer(app, async (baseUrl) => {
+      const delivery = await webhooks.send(userCreated, `${baseUrl}/webhooks/users`, payload, { id: 'delivery-1' });
+      expect(delivery).toEqual({ id: 'delivery-1', status: 200, attempts: 1, body: '' });
+    });
+
+    expect(received).toEqual([payload]);
+  });
+});
+
+describe('createWebhookDispatcher', () => {
+  it('rejects invalid payloads with a WebhookValidationError before sending', async () => {
+    let sent = 0;
+    const webhooks = createWebhookDispatcher({
+      secret,
+      transport: async () => {
+        sent++;
+        return { status: 204 };
+      },
+    });
+
+    const error = await webhooks.send(userCreated, 'https://example.com/hook', { userId: 'u1', email: 'nope' }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(WebhookValidationError);
+    expect(error.validationError.issues[0].path).toEqual(['payload', 'email']);
+    expect(sent).toBe(0);
+  });
+
+  it('signs the payload and sends it with the delivery headers', async () => {
+    const tenantCreated = defineWebhook('tenant.created', {
+      payload: z.object({ tenantId: z.string() }),
+      headers: z.object({ 'X-Tenant-Id': z.string() }),
+      method: 'put',
+    });
+    const { transport, requests } = scriptedTransport(204);
+    const webhooks = createWebhookDispatcher({ secret, transport });
+
+    const delivery = await webhooks.send(tenantCreated, 'https://example.com/hook', { tenantId: 't1' }, {
+      headers: { 'X-Tenant-Id': 't1' },
+    });
+
+    expect(delivery).toMatchObject({ status: 204, attempts: 1 });
+    const [request] = requests;
+    expect(request).toMatchObject({ url: 'https://example.com/hook', method: 'PUT', body: '{"tenantId":"t1"}' });
+    expect(request.headers).toEqual({
+      ...signedHeaders(request.body, { timestamp: request.headers['x-webhook-timestamp'] }),
+      'x-tenant-id': 't1',
+      'x-webhook-id': delivery.id,
+    });
+  });
+
+  it('retries 5xx and 429 answers with backoff, keeping the delivery id', async () => {
+    const { transport, requests } = scriptedTransport(503, 429, 200);
+    const backoffs: number[] = [];
+    const webhooks = createWebhookDispatcher({
+      secret,
+      transport,
+      backoff: (retry) => {
+        backoffs.push(retry);
+        return 1;
+      },
+    });
+
+    const delivery = await webhooks.send(userCreated, 'https://example.com/hook', payload);
+
+    expect(delivery).toMatchObject({ status: 200, attempts: 3 });
+    expect(backoffs).toEqual([1, 2]);
+    expect(new Set(requests.map(({ headers }) => headers['x-webhook-id']))).toEqual(new Set([delivery.id]));
+  });
+
+  it('gives up on other answers, or once the retries are used up', async () => {
+    const rejected = scriptedTransport(400);
+    const failing = scriptedTransport(500);
+    const send = (transport: typeof rejected.transport) => createWebhookDispatcher({ secret, transport, retries: 2, backoff: () => 1 })
+      .send(userCreated, 'https://example.com/hook', payload)
+      .catch((caught) => caught);
+
+    const clientError = await send(rejected.transport);
+    expect(clientError).toBeInstanceOf(WebhookDeliveryError);
+    expect(clientError).toMatchObject({ status: 400, attempts: 1 });
+
+    const serverError = await send(failing.transport);
+    expect(serverError).toMatchObject({ status: 500, attempts: 3 });
+    expect(failing.requests).toHaveLength(3);
+  });
+
+  it('aborts attempts that exceed the timeout', async () => {
+    const signals: AbortSignal[] = [];
+    const webhooks = createWebhookDispatcher({
+      secret,
+      retries: 1,
+      backoff: () => 1,
+      timeout: 20,
+      transport: ({ signal }) => new Promise((resolve, reject) => {
+        signals.push(signal);
+        signal.addEventListener('abort', () => reject(new Error('The attempt timed out')));
+      }),
+    });
+
+    const error = await webhooks.send(userCreated, 'https://example.com/hook', payload).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(WebhookDeliveryError);
+    expect(error).toMatchObject({ attempts: 2, status: undefined });
+    expect(error.message).toContain('The attempt timed out');
+    expect(signals.map(({ aborted }) => aborted)).toEqual([true, true]);
+  });
+});
+
+describe('webhooks section', () => {
+  const header = (spec: any, webhook: string) => {
+    return spec.webhooks[webhook].post.parameters.map(({ name, required }: any) => ({ name, required }));
+  };
+
+  it('documents the payload, declared headers and delivery headers', () => {
+    const tenantCreated = defineWebhook('tenant.created', {
+      payload: z.object({ tenantId: z.string() }),
+      headers: z.object({ 'x-tenant-id': z.string(), 'x-webhook-id': z.string() }),
+      summary: 'A tenant was created',
+    });
+    const spec: any = generateOpenAPISpec({ info: { title: 'Test', version: '1.0.0' }, webhooks: [tenantCreated] });
+    const operation = spec.webhooks['tenant.created'].post;
+
+    expect(operation.summary).toBe('A tenant was created');
+    expect(operation.requestBody.content['application/json'].schema).toEqual({
+      type: 'object',
+      properties: { tenantId: { type: 'string' } },
+      required: ['tenantId'],
+    });
+    expect(operation.responses).toEqual({ 200: { description: 'Webhook received' } });
+    expect(header(spec, 'tenant.created')).toEqual([
+      { name: 'x-tenant-id', required: true },
+      { name: 'x-webhook-signature', required: true },
+      { name: 'x-webhook-timestamp', required: true },
+      { name: 'x-webhook-id', required: true },
+    ]);
+    expect(operation.parameters[1].description).toBe('`v1=` followed by the hex HMAC-SHA256 of `<timestamp>.<body>`.');
+  });
+
+  it("documents the headers of the dispatcher's delivery options", () => {
+    const pushed = defineWebhook('push', {
+      payload: z.object({ ref: z.string() }),
+      delivery: { signatureHeader: 'x-hub-signature-256', signaturePrefix: 'sha256=', timestampHeader: false, idHeader: 'x-github-delivery' },
+    });
+    const spec: any = generateOpenAPISpec({ info: { title: 'Test', version: '1.0.0' }, webhooks: [pushed] });
+
+    expect(header(spec, 'push')).toEqual([
+      { name: 'x-hub-signature-256', required: true },
+      { name: 'x-github-delivery', required: true },
+    ]);
+    expect(spec.webhooks.push.post.parameters[0].description).toBe('`sha256=` followed by the hex HMAC-SHA256 of the body.');
+  });
+});
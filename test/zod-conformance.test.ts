@@ -0,0 +1,355 @@
+import { describe, expect, it } from 'vitest';
+import * as z3 from 'zod/v3';
+import * as z4 from 'zod';
+import {
+  ConversionMode,
+  collectComponents,
+  createConversionContext,
+  renameRefs,
+  zodSchemaToOpenAPISchema,
+} from '../src/lib/zod-to-openapi-schema';
+
+/** Either Zod namespace; cases only use the API both versions share unless they give a `v4` builder. */
+type AnyZod = any;
+
+interface ConformanceCase {
+  name: string;
+  build: (z: AnyZod) => unknown;
+  /** Builds the Zod 4 schema where its API differs from Zod 3's. */
+  v4?: (z: AnyZod) => unknown;
+  /** The OpenAPI schema both versions convert to, in input and output mode unless `output` differs. */
+  expected: unknown;
+  output?: unknown;
+  /** Components the conversion registers. */
+  components?: Record<string, unknown>;
+}
+
+enum Color {
+  Red = 'red',
+  Green = 'green',
+}
+
+enum Level {
+  Low,
+  High,
+}
+
+const cases: ConformanceCase[] = [
+  { name: 'string', build: (z) => z.string(), expected: { type: 'string' } },
+  { name: 'string length bounds', build: (z) => z.string().min(2).max(10), expected: { type: 'string', minLength: 2, maxLength: 10 } },
+  { name: 'string exact length', build: (z) => z.string().length(5), expected: { type: 'string', minLength: 5, maxLength: 5 } },
+  { name: 'email', build: (z) => z.string().email(), expected: { type: 'string', format: 'email' } },
+  { name: 'url', build: (z) => z.string().url(), expected: { type: 'string', format: 'uri' } },
+  { name: 'uuid', build: (z) => z.string().uuid(), expected: { type: 'string', format: 'uuid' } },
+  { name: 'datetime', build: (z) => z.string().datetime(), expected: { type: 'string', format: 'date-time' } },
+  { name: 'cuid', build: (z) => z.string().cuid(), expected: { type: 'string', format: 'cuid' } },
+  { name: 'ipv4', build: (z) => z.string().ip({ version: 'v4' }), v4: (z) => z.ipv4(), expected: { type: 'string', format: 'ipv4' } },
+  { name: 'regex', build: (z) => z.string().regex(/^[a-z]+$/), expected: { type: 'string', pattern: '^[a-z]+$' } },
+  {
+    name: 'several patterns',
+    build: (z) => z.string().regex(/^a/).regex(/b$/),
+    expected: { type: 'string', pattern: '^a', allOf: [{ pattern: 'b$' }] },
+  },
+  { name: 'startsWith', build: (z) => z.string().startsWith('id_'), expected: { type: 'string', pattern: '^id_' } },
+  { name: 'endsWith', build: (z) => z.string().endsWith('.png'), expected: { type: 'string', pattern: '\\.png$' } },
+  { name: 'includes', build: (z) => z.string().includes('@'), expected: { type: 'string', pattern: '@' } },
+  { name: 'number', build: (z) => z.number(), expected: { type: 'number' } },
+  { name: 'integer', build: (z) => z.number().int(), expected: { type: 'integer' } },
+  { name: 'inclusive bounds', build: (z) => z.number().min(1).max(10), expected: { type: 'number', minimum: 1, maximum: 10 } },
+  {
+    name: 'exclusive bounds',
+    build: (z) => z.number().gt(0).lt(1),
+    expected: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 },
+  },
+  { name: 'positive', build: (z) => z.number().positive(), expected: { type: 'number', exclusiveMinimum: 0 } },
+  { name: 'multipleOf', build: (z) => z.number().multipleOf(5), expected: { type: 'number', multipleOf: 5 } },
+  { name: 'bigint', build: (z) => z.bigint(), expected: { type: 'integer', format: 'int64' } },
+  { name: 'boolean', build: (z) => z.boolean(), expected: { type: 'boolean' } },
+  { name: 'date', build: (z) => z.date(), expected: { type: 'string', format: 'date-time' } },
+  { name: 'null', build: (z) => z.null(), expected: { type: 'null' } },
+  { name: 'undefined', build: (z) => z.undefined(), expected: { type: 'null' } },
+  { name: 'any', build: (z) => z.any(), expected: {} },
+  { name: 'unknown', build: (z) => z.unknown(), expected: {} },
+  { name: 'never', build: (z) => z.never(), expected: { not: {} } },
+  { name: 'nan', build: (z) => z.nan(), expected: { type: 'number' } },
+  { name: 'string literal', build: (z) => z.literal('on'), expected: { type: 'string', enum: ['on'] } },
+  { name: 'number literal', build: (z) => z.literal(42), expected: { type: 'number', enum: [42] } },
+  { name: 'enum', build: (z) => z.enum(['a', 'b']), expected: { type: 'string', enum: ['a', 'b'] } },
+  {
+    name: 'string native enum',
+    build: (z) => z.nativeEnum(Color),
+    v4: (z) => z.enum(Color),
+    expected: { type: 'string', enum: ['red', 'green'] },
+  },
+  { name: 'numeric native enum', build: (z) => z.nativeEnum(Level), v4: (z) => z.enum(Level), expected: { type: 'number', enum: [0, 1] } },
+  { name: 'array', build: (z) => z.array(z.string()), expected: { type: 'array', items: { type: 'string' } } },
+  {
+    name: 'array size bounds',
+    build: (z) => z.array(z.number()).min(1).max(3),
+    expected: { type: 'array', items: { type: 'number' }, minItems: 1, maxItems: 3 },
+  },
+  {
+    name: 'array exact size',
+    build: (z) => z.array(z.number()).length(2),
+    expected: { type: 'array', items: { type: 'number' }, minItems: 2, maxItems: 2 },
+  },
+  {
+    name: 'nonempty array',
+    build: (z) => z.array(z.string()).nonempty(),
+    expected: { type: 'array', items: { type: 'string' }, minItems: 1 },
+  },
+  {
+    name: 'tuple',
+    build: (z) => z.tuple([z.string(), z.number()]),
+    expected: {
+      type: 'array',
+      prefixItems: [{ type: 'string' }, { type: 'number' }],
+      minItems: 2,
+      maxItems: 2,
+    },
+  },
+  {
+    name: 'tuple with rest',
+    build: (z) => z.tuple([z.string()]).rest(z.number()),
+    expected: { type: 'array', prefixItems: [{ type: 'string' }], minItems: 1, items: { type: 'number' } },
+  },
+  {
+    name: 'set',
+    build: (z) => z.set(z.string()).min(1),
+    expected: { type: 'array', uniqueItems: true, items: { type: 'string' }, minItems: 1 },
+  },
+  {
+    name: 'object',
+    build: (z) => z.object({
+      id: z.string(),
+      nickname: z.string().optional(),
+      bio: z.string().nullable(),
+      role: z.enum(['admin', 'member']).default('member'),
+      address: z.object({ city: z.string() }).optional(),
+    }),
+    expected: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        nickname: { type: 'string' },
+        bio: { type: ['string', 'null'] },
+        role: { type: 'string', enum: ['admin', 'member'], default: 'member' },
+        address: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+      },
+      required: ['id', 'bio'],
+    },
+    output: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        nickname: { type: 'string' },
+        bio: { type: ['string', 'null'] },
+        role: { type: 'string', enum: ['admin', 'member'] },
+        address: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+      },
+      required: ['id', 'bio', 'role'],
+    },
+  },
+  {
+    name: 'strict object',
+    build: (z) => z.object({ a: z.string() }).strict(),
+    v4: (z) => z.strictObject({ a: z.string() }),
+    expected: {
+      type: 'object',
+      properties: { a: { type: 'string' } },
+      required: ['a'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'catchall',
+    build: (z) => z.object({ a: z.string() }).catchall(z.number()),
+    expected: {
+      type: 'object',
+      properties: { a: { type: 'string' } },
+      required: ['a'],
+      additionalProperties: { type: 'number' },
+    },
+  },
+  {
+    name: 'passthrough object',
+    build: (z) => z.object({ a: z.string() }).passthrough(),
+    v4: (z) => z.looseObject({ a: z.string() }),
+    expected: { type: 'object', properties: { a: { type: 'string' } }, required: ['a'] },
+  },
+  {
+    name: 'record',
+    build: (z) => z.record(z.string(), z.number()),
+    expected: { type: 'object', additionalProperties: { type: 'number' } },
+  },
+  { name: 'map', build: (z) => z.map(z.string(), z.number()), expected: { type: 'object', additionalProperties: true } },
+  { name: 'union', build: (z) => z.union([z.string(), z.number()]), expected: { oneOf: [{ type: 'string' }, { type: 'number' }] } },
+  {
+    name: 'discriminated union',
+    build: (z) => z.discriminatedUnion('kind', [
+      z.object({ kind: z.literal('a'), a: z.string() }),
+      z.object({ kind: z.literal('b'), b: z.number() }),
+    ]),
+    expected: {
+      oneOf: [
+        {
+          type: 'object',
+          properties: { kind: { type: 'string', enum: ['a'] }, a: { type: 'string' } },
+          required: ['kind', 'a'],
+        },
+        {
+          type: 'object',
+          properties: { kind: { type: 'string', enum: ['b'] }, b: { type: 'number' } },
+          required: ['kind', 'b'],
+        },
+      ],
+      discriminator: { propertyName: 'kind' },
+    },
+  },
+  {
+    name: 'intersection',
+    build: (z) => z.intersection(z.object({ a: z.string() }), z.object({ b: z.number() })),
+    expected: {
+      allOf: [
+        { type: 'object', properties: { a: { type: 'string' } }, required: ['a'] },
+        { type: 'object', properties: { b: { type: 'number' } }, required: ['b'] },
+      ],
+    },
+  },
+  { name: 'nullable string', build: (z) => z.string().nullable(), expected: { type: ['string', 'null'] } },
+  { name: 'nullable enum', build: (z) => z.enum(['a', 'b']).nullable(), expected: { type: ['string', 'null'], enum: ['a', 'b', null] } },
+  {
+    name: 'nullable object',
+    build: (z) => z.object({ a: z.string() }).nullable(),
+    expected: { type: ['object', 'null'], properties: { a: { type: 'string' } }, required: ['a'] },
+  },
+  { name: 'default', build: (z) => z.number().default(3), expected: { type: 'number', default: 3 }, output: { type: 'number' } },
+  {
+    name: 'date default',
+    build: (z) => z.date().default(new Date('2024-01-01T00:00:00.000Z')),
+    expected: { type: 'string', format: 'date-time', default: '2024-01-01T00:00:00.000Z' },
+    output: { type: 'string', format: 'date-time' },
+  },
+  {
+    name: 'catch',
+    build: (z) => z.object({ n: z.number().catch(0) }),
+    expected: { type: 'object', properties: { n: { type: 'number' } }, required: ['n'] },
+  },
+  {
+    name: 'readonly',
+    build: (z) => z.object({ id: z.string() }).readonly(),
+    expected: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'], readOnly: true },
+  },
+  { name: 'described', build: (z) => z.string().describe('A name'), expected: { type: 'string', description: 'A name' } },
+  {
+    name: 'described object property',
+    build: (z) => z.object({ name: z.string().describe('A name').optional() }),
+    expected: { type: 'object', properties: { name: { type: 'string', description: 'A name' } } },
+  },
+  { name: 'refinement', build: (z) => z.string().refine((value: string) => value.length > 1), expected: { type: 'string' } },
+  {
+    name: 'transform',
+    build: (z) => z.object({ age: z.string().transform(Number) }),
+    expected: { type: 'object', properties: { age: { type: 'string' } }, required: ['age'] },
+    output: { type: 'object', properties: { age: {} }, required: ['age'] },
+  },
+  {
+    name: 'pipe',
+    build: (z) => z.string().transform(Number).pipe(z.number().int()),
+    expected: { type: 'string' },
+    output: { type: 'integer' },
+  },
+  { name: 'preprocess', build: (z) => z.preprocess((value: unknown) => String(value), z.string()), expected: { type: 'string' } },
+  {
+    name: 'optional default in object',
+    build: (z) => z.object({ page: z.number().int().min(1).default(1) }),
+    expected: { type: 'object', properties: { page: { type: 'integer', minimum: 1, default: 1 } } },
+    output: { type: 'object', properties: { page: { type: 'integer', minimum: 1 } }, required: ['page'] },
+  },
+  { name: 'brand', build: (z) => z.string().brand('UserId'), expected: { type: 'string' } },
+  {
+    name: 'property optionality',
+    build: (z) =>
+      z.object({
+        any: z.any(),
+        unknown: z.unknown(),
+        undefined: z.undefined(),
+        caught: z.number().catch(0),
+        caughtOptional: z.number().optional().catch(0),
+        nullableOptional: z.string().optional().nullable(),
+        transformedOptional: z.string().optional().transform((value: string | undefined) => value ?? ''),
+        preprocessedOptional: z.preprocess((value: unknown) => value, z.string().optional()),
+        union: z.union([z.string(), z.undefined()]),
+      }),
+    expected: {
+      type: 'object',
+      properties: {
+        any: {},
+        unknown: {},
+        undefined: { type: 'null' },
+        caught: { type: 'number' },
+        caughtOptional: { type: 'number' },
+        nullableOptional: { type: ['string', 'null'] },
+        transformedOptional: { type: 'string' },
+        preprocessedOptional: { type: 'string' },
+        union: { oneOf: [{ type: 'string' }, { type: 'null' }] },
+      },
+      required: ['any', 'unknown', 'caught', 'preprocessedOptional'],
+    },
+    output: {
+      type: 'object',
+      properties: {
+        any: {},
+        unknown: {},
+        undefined: { type: 'null' },
+        caught: { type: 'number' },
+        caughtOptional: { type: 'number' },
+        nullableOptional: { type: ['string', 'null'] },
+        transformedOptional: {},
+        preprocessedOptional: { type: 'string' },
+        union: { oneOf: [{ type: 'string' }, { type: 'null' }] },
+      },
+      required: ['any', 'unknown', 'caught', 'transformedOptional'],
+    },
+  },
+  { name: 'promise', build: (z) => z.promise(z.string()), expected: { type: 'string' } },
+  {
+    name: 'lazy recursive schema',
+    build: (z) => {
+      const node: any = z.lazy(() => z.object({ value: z.number(), children: z.array(node) }));
+      return node;
+    },
+    expected: { $ref: '#/components/schemas/RecursiveSchema1' },
+    components: {
+      RecursiveSchema1: {
+        type: 'object',
+        properties: {
+          value: { type: 'number' },
+          children: { type: 'array', items: { $ref: '#/components/schemas/RecursiveSchema1' } },
+        },
+        required: ['value', 'children'],
+      },
+    },
+  },
+];
+
+/** The schema and its components as they end up in a document, with component references resolved. */
+const convert = (schema: unknown, mode: ConversionMode) => {
+  const context = createConversionContext();
+  const jsonSchema = zodSchemaToOpenAPISchema(schema, context, mode);
+  const { schemas, renames } = collectComponents(context);
+  const converted = { jsonSchema, components: schemas };
+  renameRefs(converted, renames);
+  return converted;
+};
+
+describe.each<ConversionMode>(['input', 'output'])('Zod 3 and Zod 4 conversion (%s)', (mode) => {
+  it.each(cases.map((conformanceCase) => [conformanceCase.name, conformanceCase] as const))('%s', (_, conformanceCase) => {
+    const { build, v4, expected, output, components = {} } = conformanceCase;
+    const zod3 = convert(build(z3), mode);
+    const zod4 = convert((v4 ?? build)(z4), mode);
+
+    expect(zod4).toEqual({ jsonSchema: mode === 'output' && 'output' in conformanceCase ? output : expected, components });
+    expect(zod3).toEqual(zod4);
+  });
+});